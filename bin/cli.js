@@ -4,6 +4,7 @@ import fs from 'fs';
 import path from 'path';
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
 import { replaceVoiceHooks, areHooksEqual, removeVoiceHooks } from '../dist/hook-merger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -31,6 +32,8 @@ async function main() {
     } else if (command === 'uninstall') {
       console.log('🗑️  Uninstalling MCP Voice Hooks...');
       await uninstall();
+    } else if (command === 'export') {
+      await exportConversation(args.slice(1));
     } else {
       // Default behavior: ensure hooks are installed/updated, then run the MCP server
       console.log('🎤 MCP Voice Hooks - Starting server...');
@@ -106,7 +109,8 @@ async function configureClaudeCodeSettings() {
     }
   }
 
-  // Add hook configuration with inline commands
+  // Add hook configuration with inline commands.
+  // Claude Code writes the hook payload (session id, tool name, ...) to stdin; curl forwards it with --data-binary @-
   const hookConfig = {
     "Stop": [
       {
@@ -114,7 +118,7 @@ async function configureClaudeCodeSettings() {
         "hooks": [
           {
             "type": "command",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/stop\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/stop\" -H 'Content-Type: application/json' --data-binary @- || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
           }
         ]
       }
@@ -125,7 +129,7 @@ async function configureClaudeCodeSettings() {
         "hooks": [
           {
             "type": "command",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-tool\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-tool\" -H 'Content-Type: application/json' --data-binary @- || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
           }
         ]
       },
@@ -134,12 +138,7 @@ async function configureClaudeCodeSettings() {
         "hooks": [
           {
             "type": "command",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-speak\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
-          },
-          {
-            "type": "command",
-            "when": "after",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/post-speak\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-speak\" -H 'Content-Type: application/json' --data-binary @- || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
           }
         ]
       },
@@ -148,10 +147,20 @@ async function configureClaudeCodeSettings() {
         "hooks": [
           {
             "type": "command",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-wait\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/pre-wait\" -H 'Content-Type: application/json' --data-binary @- || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
           }
         ]
-      }
+      },
+      // Voice approval of permission prompts (opt-in). An empty answer leaves the prompt to Claude Code.
+      ...(process.env.MCP_VOICE_HOOKS_VOICE_PERMISSIONS === 'true' ? [{
+        "matcher": "^(?!mcp__voice-hooks__).*",
+        "hooks": [
+          {
+            "type": "command",
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/permission\" -H 'Content-Type: application/json' --data-binary @- || echo '{}'"
+          }
+        ]
+      }] : [])
     ],
     "PostToolUse": [
       {
@@ -159,7 +168,17 @@ async function configureClaudeCodeSettings() {
         "hooks": [
           {
             "type": "command",
-            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/post-tool\" -H 'Content-Type: application/json' -d \"$CLAUDE_HOOK_REQUEST_BODY\" || echo '{}'"
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/post-tool\" -H 'Content-Type: application/json' --data-binary @- || echo '{}'"
+          }
+        ]
+      },
+      // Runs once the speak tool has recorded its response, then waits for the user's reply
+      {
+        "matcher": "^mcp__voice-hooks__speak$",
+        "hooks": [
+          {
+            "type": "command",
+            "command": "curl -s -X POST \"http://localhost:${MCP_VOICE_HOOKS_PORT:-5111}/api/hooks/post-speak\" -H 'Content-Type: application/json' --data-binary @- || echo '{\"decision\": \"approve\", \"reason\": \"voice-hooks unavailable\"}'"
           }
         ]
       }
@@ -229,6 +248,48 @@ async function runMCPServer() {
   });
 }
 
+// Export the conversation from the running server
+// Usage: mcp-voice-hooks export [--format md|json|srt|txt] [--session <id>] [--from <date>] [--to <date>] [--output <file>] [--port <port>]
+async function exportConversation(args) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      format: { type: 'string', short: 'f', default: 'md' },
+      session: { type: 'string', short: 's' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      port: { type: 'string', short: 'p', default: process.env.MCP_VOICE_HOOKS_PORT || '5111' }
+    }
+  });
+
+  const query = new URLSearchParams({ format: values.format });
+  if (values.session) query.set('sessionId', values.session);
+  if (values.from) query.set('from', values.from);
+  if (values.to) query.set('to', values.to);
+
+  const url = `http://localhost:${values.port}/api/conversation/export?${query}`;
+  let response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`Could not reach the voice hooks server on port ${values.port}. Is Claude Code running with voice hooks?`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Export failed with status ${response.status}`);
+  }
+
+  const transcript = await response.text();
+  if (values.output) {
+    fs.writeFileSync(values.output, transcript);
+    // Status goes to stderr so stdout only ever carries the transcript
+    console.error(`✅ Exported conversation to ${values.output}`);
+  } else {
+    process.stdout.write(transcript);
+  }
+}
+
 // Uninstall MCP Voice Hooks
 async function uninstall() {
   // Use the directory where ./bin/cvh is located as the project root
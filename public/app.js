@@ -1,9 +1,15 @@
+// Version of the WebSocket message protocol; message shapes are defined in src/ws-protocol.ts
+const PROTOCOL_VERSION = 1;
+
 class VoiceHooksClient {
     constructor() {
         this.baseUrl = window.location.origin;
         this.debug = localStorage.getItem('voiceHooksDebug') === 'true';
         this.refreshBtn = document.getElementById('refreshBtn');
         this.clearAllBtn = document.getElementById('clearAllBtn');
+        this.sessionSelect = document.getElementById('sessionSelect');
+        this.selectedSessionId = ''; // Empty means the most recently active Claude Code session
+        this.sessions = [];
         this.chatContainer = document.getElementById('chatContainer');
         this.typingIndicator = document.getElementById('typingIndicator');
         this.messages = []; // Store all chat messages
@@ -44,17 +50,30 @@ class VoiceHooksClient {
         this.pushToTalkKeyCode = localStorage.getItem('pushToTalkKey') || 'Space';
         this.autoListenEnabled = localStorage.getItem('autoListenEnabled') !== 'false'; // Default to true
         this.isSendingMessage = false; // Flag to prevent duplicate text message submissions
+        this.nextUtteranceUrgent = false; // Set with Alt+U: the next utterance is sent as urgent
         this.wasListeningBeforeTTS = false; // Track listening state before TTS
         this.initializeSpeechRecognition();
 
         // Speech synthesis
         this.initializeSpeechSynthesis();
 
-        // Server-Sent Events for TTS
+        // Server events over WebSocket, with Server-Sent Events as a fallback
+        this.pendingRequests = new Map(); // WebSocket request id -> { resolve, reject, timer }
+        this.requestCounter = 0;
+        this.lastEventId = null; // Last broadcast event received, so reconnects replay what was missed
         this.initializeTTSEvents();
 
         // TTS controls
         this.languageSelect = document.getElementById('languageSelect');
+        this.commandNotice = document.getElementById('commandNotice');
+        this.questionBanner = document.getElementById('questionBanner');
+        this.questionText = document.getElementById('questionText');
+        this.questionChoices = document.getElementById('questionChoices');
+        this.openQuestionId = null;
+        this.statusBar = document.getElementById('statusBar');
+        this.statusText = document.getElementById('statusText');
+        this.statusProgress = document.getElementById('statusProgress');
+        this.statusProgressFill = document.getElementById('statusProgressFill');
         this.voiceSelect = document.getElementById('voiceSelect');
         this.speechRateSlider = document.getElementById('speechRate');
         this.speechRateInput = document.getElementById('speechRateInput');
@@ -72,6 +91,7 @@ class VoiceHooksClient {
         this.setupEventListeners();
         this.setupDashboardEventListeners();
         this.setupKeyboardEventListeners();
+        this.loadSessions();
         this.loadData();
         this.loadSystemInfo();
         this.loadActivityFeed();
@@ -79,6 +99,7 @@ class VoiceHooksClient {
 
         // Auto-refresh every 2 seconds
         setInterval(() => {
+            this.loadSessions();
             this.loadData();
             this.loadSystemInfo();
             this.loadActivityFeed();
@@ -90,6 +111,12 @@ class VoiceHooksClient {
         const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
 
         if (!SpeechRecognition) {
+            if (navigator.mediaDevices && window.AudioContext) {
+                // Stream microphone audio to the server's speech recognition instead
+                console.log('Speech recognition not supported in this browser, using server-side recognition');
+                this.useServerRecognition = true;
+                return;
+            }
             console.error('Speech recognition not supported in this browser');
             this.listenBtn.disabled = true;
             this.listenBtnText.textContent = 'Not Supported';
@@ -210,6 +237,14 @@ class VoiceHooksClient {
             }
         });
 
+        // Alt+U marks the next utterance, spoken or typed, as urgent
+        document.addEventListener('keydown', (event) => {
+            if (event.altKey && event.code === 'KeyU') {
+                event.preventDefault();
+                this.setNextUtteranceUrgent(!this.nextUtteranceUrgent);
+            }
+        });
+
         document.addEventListener('keyup', (event) => {
             if (this.isPushToTalkMode && this.isPushToTalkEnabled && event.code === this.pushToTalkKeyCode) {
                 event.preventDefault();
@@ -222,6 +257,16 @@ class VoiceHooksClient {
         });
     }
 
+    setNextUtteranceUrgent(urgent) {
+        this.nextUtteranceUrgent = urgent;
+        if (this.utteranceInput) {
+            this.utteranceInput.classList.toggle('urgent', urgent);
+            this.utteranceInput.placeholder = urgent
+                ? 'URGENT: your next message interrupts Claude before its next tool (Alt+U to cancel)'
+                : 'Type or speak your message... (Ctrl+Enter or Alt+U: urgent)';
+        }
+    }
+
     isTypingInInputField(target) {
         return target && (
             target.tagName === 'INPUT' || 
@@ -236,6 +281,25 @@ class VoiceHooksClient {
         if (this.clearAllBtn) this.clearAllBtn.addEventListener('click', () => this.clearAllUtterances());
         if (this.listenBtn) this.listenBtn.addEventListener('click', () => this.toggleListening());
 
+        // Edit, merge or retract pending utterances from the chat
+        if (this.chatContainer) {
+            this.chatContainer.addEventListener('click', (e) => {
+                const button = e.target.closest('[data-action]');
+                if (button) {
+                    this.editUtterance(button.dataset.action, button.dataset.id);
+                }
+            });
+        }
+
+        // Session picker - choose which Claude Code session receives voice input
+        if (this.sessionSelect) {
+            this.sessionSelect.addEventListener('change', (e) => {
+                this.selectedSessionId = e.target.value;
+                this.messages = [];
+                this.loadData();
+            });
+        }
+
         // Push-to-talk toggle
         if (this.pushToTalkToggle) {
             this.pushToTalkToggle.addEventListener('change', (e) => {
@@ -292,7 +356,8 @@ class VoiceHooksClient {
             this.utteranceInput.addEventListener('keydown', (e) => {
                 if (e.key === 'Enter') {
                     e.preventDefault();
-                    this.sendTextMessage();
+                    // Ctrl+Enter (Cmd+Enter on macOS) sends the message as urgent
+                    this.sendTextMessage(e.ctrlKey || e.metaKey);
                 }
             });
         }
@@ -353,10 +418,119 @@ class VoiceHooksClient {
     }
 
 
+    // Query string selecting the target session (empty when following the latest active session)
+    sessionQuery(prefix = '?') {
+        return this.selectedSessionId ? `${prefix}sessionId=${encodeURIComponent(this.selectedSessionId)}` : '';
+    }
+
+    async loadSessions() {
+        try {
+            const response = await fetch(`${this.baseUrl}/api/sessions`);
+            if (response.ok) {
+                const data = await response.json();
+                this.sessions = data.sessions;
+                this.updateSessionSelect(data.activeSessionId);
+            }
+        } catch (error) {
+            console.error('Failed to load sessions:', error);
+        }
+    }
+
+    updateSessionSelect(activeSessionId) {
+        if (!this.sessionSelect) return;
+
+        // Fall back to the latest active session if the selected one is gone
+        if (this.selectedSessionId && !this.sessions.some(s => s.id === this.selectedSessionId)) {
+            this.selectedSessionId = '';
+        }
+
+        const activeSession = this.sessions.find(s => s.id === activeSessionId);
+        const latestLabel = activeSession ? `Latest active (${activeSession.name})` : 'Latest active session';
+
+        this.sessionSelect.innerHTML = `<option value="">${this.escapeHtml(latestLabel)}</option>` +
+            this.sessions.map(session => `
+                <option value="${this.escapeHtml(session.id)}">${this.escapeHtml(session.name)} • ${session.pendingUtterances} pending</option>
+            `).join('');
+        this.sessionSelect.value = this.selectedSessionId;
+    }
+
+    handleVoiceCommand(data) {
+        console.log(`🎛️ [COMMAND] "${data.text}" -> ${data.command}: ${data.message}`);
+        this.hideTypingIndicator();
+
+        if (this.commandNotice) {
+            this.commandNotice.textContent = `🎛️ ${data.message}`;
+            this.commandNotice.classList.add('visible');
+            clearTimeout(this.commandNoticeTimer);
+            this.commandNoticeTimer = setTimeout(() => {
+                this.commandNotice.classList.remove('visible');
+            }, 4000);
+        }
+
+        // Drop the optimistic chat bubble; commands are not queued
+        this.loadData();
+    }
+
+    // Claude asked a question (ask_user) or wants approval (confirm_action) and is waiting for the answer
+    showQuestion(data) {
+        if (!this.questionBanner) return;
+        const confirm = data.kind !== 'question';
+        this.openQuestionId = data.id;
+        this.questionText.textContent = `${confirm ? '⚠️' : '❓'} ${data.question}`;
+        this.questionBanner.classList.toggle('confirm', confirm);
+        this.questionChoices.innerHTML = data.choices.map(choice =>
+            `<button class="${confirm ? choice.toLowerCase() : ''}" data-choice="${this.escapeHtml(choice)}">${this.escapeHtml(choice)}</button>`
+        ).join('');
+        this.questionChoices.querySelectorAll('button').forEach(button => {
+            button.addEventListener('click', () => this.sendVoiceUtterance(button.dataset.choice));
+        });
+        this.questionBanner.classList.add('visible');
+        this.hideTypingIndicator();
+        this.hideStatus();
+    }
+
+    hideQuestion(data) {
+        if (!this.questionBanner || data.id !== this.openQuestionId) return;
+        this.openQuestionId = null;
+        this.questionBanner.classList.remove('visible');
+    }
+
+    // Progress narration from set_status; cleared when Claude speaks, asks or waits for input
+    showStatus(data) {
+        if (!this.statusBar) return;
+        this.statusText.textContent = data.text;
+        const hasProgress = typeof data.progress === 'number';
+        this.statusProgress.classList.toggle('hidden', !hasProgress);
+        this.statusProgressFill.style.width = hasProgress ? `${data.progress}%` : '0';
+        this.statusBar.classList.add('visible');
+
+        // Low priority: never cut off a response, a question or the user
+        if (data.speak && !data.replayed && this.isSpeechIdle()) {
+            this.speakText(data.text);
+        }
+    }
+
+    hideStatus() {
+        if (!this.statusBar) return;
+        this.statusBar.classList.remove('visible');
+    }
+
+    isSpeechIdle() {
+        const synthesisBusy = window.speechSynthesis && (window.speechSynthesis.speaking || window.speechSynthesis.pending);
+        const audioBusy = this.currentSpeechAudio && !this.currentSpeechAudio.paused && !this.currentSpeechAudio.ended;
+        const userSpeaking = this.isListening && this.interimText.classList.contains('active');
+        return !synthesisBusy && !audioBusy && !userSpeaking && !this.openQuestionId;
+    }
+
+    handleSessionUpdate(data) {
+        this.debugLog('Session update:', data.session);
+        this.loadSessions();
+    }
+
     async loadData() {
         try {
             // Load utterances
-            const utterancesResponse = await fetch(`${this.baseUrl}/api/utterances?limit=20`);
+            const utterancesResponse = await fetch(`${this.baseUrl}/api/utterances?limit=20${this.sessionQuery('&')}`);
             if (utterancesResponse.ok) {
                 const data = await utterancesResponse.json();
                 this.updateUtterancesList(data.utterances);
@@ -382,9 +556,11 @@ class VoiceHooksClient {
             // Add user message
             newMessages.push({
                 type: 'user',
+                id: utterance.id,
                 text: utterance.text,
                 timestamp: utterance.timestamp,
                 status: utterance.status,
+                urgent: utterance.urgent,
                 persisted: true
             });
             
@@ -457,7 +633,14 @@ class VoiceHooksClient {
             <div class="message-bubble ${message.type}">
                 <div class="message-text">${this.escapeHtml(message.text)}</div>
                 <div class="message-time">${this.formatChatTime(message.timestamp)}</div>
+                ${message.urgent ? '<div class="message-urgent">URGENT</div>' : ''}
                 ${message.status ? `<div class="message-status status-${message.status}">${message.status.toUpperCase()}</div>` : ''}
+                ${message.id && message.status === 'pending' ? `
+                <div class="message-actions">
+                    <button data-action="edit" data-id="${message.id}" title="Edit">✏️</button>
+                    <button data-action="merge" data-id="${message.id}" title="Merge with previous">⤴️</button>
+                    <button data-action="retract" data-id="${message.id}" title="Retract">✖️</button>
+                </div>` : ''}
             </div>
         `).join('') + '<div class="typing-indicator" id="typingIndicator"><div class="typing-dots"><div class="typing-dot"></div><div class="typing-dot"></div><div class="typing-dot"></div></div></div>';
 
@@ -556,7 +739,7 @@ class VoiceHooksClient {
         }
     }
 
-    async sendTextMessage() {
+    async sendTextMessage(urgent = false) {
         const text = this.utteranceInput.value.trim();
         if (!text) return;
 
@@ -570,7 +753,7 @@ class VoiceHooksClient {
         this.debugLog('Sending text message:', text);
 
         try {
-            await this.sendVoiceUtterance(text);
+            await this.sendVoiceUtterance(text, urgent);
             this.utteranceInput.value = ''; // Clear input after sending
         } catch (error) {
             console.error('Failed to send text message:', error);
@@ -583,13 +766,17 @@ class VoiceHooksClient {
     }
 
     async startListening() {
-        if (!this.recognition) {
+        if (!this.recognition && !this.useServerRecognition) {
             alert('Speech recognition not supported in this browser');
             return;
         }
 
         try {
-            this.recognition.start();
+            if (this.useServerRecognition) {
+                await this.startServerRecognition();
+            } else {
+                this.recognition.start();
+            }
             this.isListening = true;
             this.listenBtn.classList.add('listening');
             this.listenBtnText.textContent = 'Stop Listening';
@@ -605,9 +792,13 @@ class VoiceHooksClient {
     }
 
     async stopListening() {
-        if (this.recognition) {
+        if (this.recognition || this.useServerRecognition) {
             this.isListening = false;
-            this.recognition.stop();
+            if (this.useServerRecognition) {
+                this.stopServerRecognition();
+            } else {
+                this.recognition.stop();
+            }
             this.listenBtn.classList.remove('listening');
             this.listenBtnText.textContent = 'Start Listening';
             this.listeningIndicator.classList.remove('active');
@@ -620,9 +811,79 @@ class VoiceHooksClient {
         }
     }
 
-    async sendVoiceUtterance(text) {
+    async startServerRecognition() {
+        if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) {
+            throw new Error('Not connected to the server');
+        }
+
+        this.micStream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+        this.audioContext = new AudioContext();
+        const source = this.audioContext.createMediaStreamSource(this.micStream);
+        this.audioProcessor = this.audioContext.createScriptProcessor(4096, 1, 1);
+
+        this.webSocket.send(JSON.stringify({
+            v: PROTOCOL_VERSION,
+            type: 'audio-start',
+            sampleRate: this.audioContext.sampleRate,
+            language: navigator.language,
+            sessionId: this.selectedSessionId || undefined
+        }));
+
+        // Send 16-bit PCM frames; the server finds the pauses between utterances
+        this.audioProcessor.onaudioprocess = (event) => {
+            if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) return;
+            const samples = event.inputBuffer.getChannelData(0);
+            const pcm = new Int16Array(samples.length);
+            for (let i = 0; i < samples.length; i++) {
+                pcm[i] = Math.max(-1, Math.min(1, samples[i])) * 0x7fff;
+            }
+            this.webSocket.send(pcm.buffer);
+        };
+
+        source.connect(this.audioProcessor);
+        this.audioProcessor.connect(this.audioContext.destination);
+    }
+
+    stopServerRecognition() {
+        if (this.webSocket && this.webSocket.readyState === WebSocket.OPEN) {
+            this.webSocket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'audio-stop' }));
+        }
+        if (this.audioProcessor) {
+            this.audioProcessor.disconnect();
+            this.audioProcessor = null;
+        }
+        if (this.audioContext) {
+            this.audioContext.close();
+            this.audioContext = null;
+        }
+        if (this.micStream) {
+            this.micStream.getTracks().forEach(track => track.stop());
+            this.micStream = null;
+        }
+    }
+
+    // Transcripts of audio streamed to the server (see startServerRecognition)
+    handleServerTranscript(data) {
+        if (!data.final) {
+            this.interimText.textContent = data.text;
+            this.interimText.classList.add('active');
+            return;
+        }
+
+        console.log(`🎤 [VOICE INPUT] "${data.text}" (recognized by server)`);
+        if (data.utterance) {
+            this.addUserMessage(data.text);
+        }
+        this.interimText.textContent = 'Start speaking and your words will appear here...';
+        this.interimText.classList.remove('active');
+        this.loadData();
+    }
+
+    async sendVoiceUtterance(text, urgent = false) {
         const trimmedText = text.trim();
         if (!trimmedText) return;
+        const isUrgent = urgent || this.nextUtteranceUrgent;
+        this.setNextUtteranceUrgent(false);
 
         // Console log for voice input
         console.log(`🎤 [VOICE INPUT] "${trimmedText}"`);
@@ -631,56 +892,95 @@ class VoiceHooksClient {
         this.debugLog('Sending voice utterance:', trimmedText);
 
         // Add user message to chat
-        this.addUserMessage(trimmedText);
+        this.addUserMessage(trimmedText, isUrgent);
         
         // Show typing indicator
         this.showTypingIndicator();
 
         try {
-            const response = await fetch(`${this.baseUrl}/api/potential-utterances`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    text: trimmedText,
-                    timestamp: new Date().toISOString()
-                }),
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-                
-                // Console log for successful voice input submission
-                if (data.success) {
-                    console.log(`   ✅ Voice input sent successfully`);
-                    if (data.sessionName) {
-                        console.log(`   📍 Routed to session: ${data.sessionName} (${data.sessionId})`);
-                    } else {
-                        console.log(`   📍 Routed to global queue`);
-                    }
+            const data = await this.sendRequest({
+                type: 'utterance',
+                text: trimmedText,
+                timestamp: new Date().toISOString(),
+                sessionId: this.selectedSessionId || undefined,
+                urgent: isUrgent,
+                // Lets the server match voice commands in the recognition language
+                language: this.recognition ? this.recognition.lang : undefined
+            }, '/api/potential-utterances');
+
+            // Console log for successful voice input submission
+            if (data.success) {
+                console.log(`   ✅ Voice input sent successfully`);
+                if (data.command) {
+                    console.log(`   🎛️ Handled as voice command: ${data.command.command}`);
+                } else if (data.sessionName) {
+                    console.log(`   📍 Routed to session: ${data.sessionName} (${data.sessionId})`);
+                } else {
+                    console.log(`   📍 Routed to global queue`);
                 }
-                
-                this.loadData(); // Refresh the list
-            } else {
-                const error = await response.json();
-                console.log(`   ❌ Failed to send voice input:`, error);
-                console.error('Error sending voice utterance:', error);
-                this.hideTypingIndicator();
             }
+
+            this.loadData(); // Refresh the list
         } catch (error) {
+            console.log(`   ❌ Failed to send voice input:`, error);
             console.error('Failed to send voice utterance:', error);
             this.hideTypingIndicator();
         }
     }
+
+    // Sends a message over the WebSocket and resolves with the result in the server's ack.
+    // While the socket is down the same fields are posted to the equivalent REST endpoint.
+    async sendRequest(message, fallbackPath) {
+        if (this.webSocket && this.webSocket.readyState === WebSocket.OPEN) {
+            const id = String(++this.requestCounter);
+            return new Promise((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    this.pendingRequests.delete(id);
+                    reject(new Error(`No response to ${message.type} request`));
+                }, 10000);
+                this.pendingRequests.set(id, { resolve, reject, timer });
+                this.webSocket.send(JSON.stringify({ v: PROTOCOL_VERSION, id, ...message }));
+            });
+        }
+
+        const { type, ...body } = message;
+        const response = await fetch(`${this.baseUrl}${fallbackPath}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `${type} request failed with status ${response.status}`);
+        }
+        return data;
+    }
+
+    handleAck(data) {
+        const request = this.pendingRequests.get(data.id);
+        if (!request) {
+            if (!data.ok) console.error('Server rejected message:', data.error);
+            return;
+        }
+        this.pendingRequests.delete(data.id);
+        clearTimeout(request.timer);
+        if (data.ok) {
+            request.resolve(data.result);
+        } else {
+            request.reject(new Error(data.error));
+        }
+    }
     
-    addUserMessage(text) {
+    addUserMessage(text, urgent = false) {
         console.log('👤 [CHAT] Adding user message:', text);
         this.messages.push({
             type: 'user',
             text: text,
             timestamp: new Date().toISOString(),
-            status: 'pending'
+            status: 'pending',
+            urgent
         });
         // Sort messages by timestamp to maintain chronological order
         this.messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
@@ -688,13 +988,49 @@ class VoiceHooksClient {
         this.renderChatMessages();
     }
 
+    async editUtterance(action, id) {
+        const message = this.messages.find(m => m.id === id);
+        if (!message) return;
+
+        let request;
+        if (action === 'edit') {
+            const text = prompt('Edit utterance', message.text);
+            if (text === null || !text.trim() || text.trim() === message.text) return;
+            request = { method: 'PATCH', url: `/api/utterances/${id}`, body: { text } };
+        } else if (action === 'merge') {
+            // Merge with the pending utterance right before this one
+            const userMessages = this.messages.filter(m => m.type === 'user');
+            const previous = userMessages[userMessages.indexOf(message) - 1];
+            if (!previous || previous.status !== 'pending') return;
+            request = { method: 'POST', url: '/api/utterances/merge', body: { ids: [previous.id, id] } };
+        } else {
+            request = { method: 'DELETE', url: `/api/utterances/${id}` };
+        }
+
+        try {
+            const response = await fetch(`${this.baseUrl}${request.url}`, {
+                method: request.method,
+                headers: { 'Content-Type': 'application/json' },
+                body: request.body ? JSON.stringify(request.body) : undefined
+            });
+            if (!response.ok) {
+                const error = await response.json();
+                // Most likely Claude already received it
+                alert(error.error || 'Failed to update utterance');
+            }
+        } catch (error) {
+            console.error('Failed to update utterance:', error);
+        }
+        this.loadData();
+    }
+
     async clearAllUtterances() {
 
         this.clearAllBtn.disabled = true;
         this.clearAllBtn.textContent = 'Clearing...';
 
         try {
-            const response = await fetch(`${this.baseUrl}/api/utterances`, {
+            const response = await fetch(`${this.baseUrl}/api/utterances${this.sessionQuery()}`, {
                 method: 'DELETE',
                 headers: {
                     'Content-Type': 'application/json',
@@ -765,29 +1101,25 @@ class VoiceHooksClient {
     }
 
     initializeTTSEvents() {
-        // Initialize both WebSocket (for unified speak events) and SSE (for other events)
-        this.initializeWebSocket();
-        this.initializeSSE();
+        // The WebSocket carries all server events; SSE takes over while it can't connect
+        if (window.WebSocket) {
+            this.initializeWebSocket();
+        } else {
+            this.initializeSSE();
+        }
     }
 
     initializeWebSocket() {
         const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
         const wsUrl = `${wsProtocol}//${window.location.host}/ws`;
         
-        this.webSocket = new WebSocket(wsUrl);
+        this.webSocket = new WebSocket(wsUrl + this.lastEventIdQuery());
 
         this.webSocket.onmessage = (event) => {
             try {
                 const data = JSON.parse(event.data);
-                console.log('🔊 [WEBSOCKET] Received message:', data);
                 this.debugLog('WebSocket Event:', data);
-
-                if (data.type === 'speak' && data.text) {
-                    console.log('🔊 [TTS] Processing speak event:', data.text);
-                    this.handleUnifiedSpeakEvent(data);
-                } else {
-                    console.log('🔊 [WEBSOCKET] Non-speak message type:', data.type);
-                }
+                this.handleServerMessage(data);
             } catch (error) {
                 console.error('Failed to parse WebSocket event:', error);
             }
@@ -801,31 +1133,41 @@ class VoiceHooksClient {
         this.webSocket.onopen = () => {
             console.log(`🔗 [WEBSOCKET] ✅ Connected to ${wsUrl}`);
             this.debugLog('WebSocket connected');
+            // Events now arrive here, so stop the fallback stream to avoid receiving them twice
+            if (this.eventSource) {
+                this.eventSource.close();
+                this.eventSource = null;
+            }
+            // Sync state when connection is established (includes reconnections)
+            this.syncStateWithServer();
         };
 
         this.webSocket.onclose = () => {
             console.log(`🔗 [WEBSOCKET] 🔄 Disconnected, attempting reconnect in 2s...`);
             this.debugLog('WebSocket disconnected, attempting reconnect...');
+            this.pendingRequests.forEach(request => {
+                clearTimeout(request.timer);
+                request.reject(new Error('WebSocket disconnected'));
+            });
+            this.pendingRequests.clear();
+            if (!this.eventSource) {
+                this.initializeSSE();
+            }
             // Reconnect after 2 seconds
             setTimeout(() => this.initializeWebSocket(), 2000);
         };
     }
 
     initializeSSE() {
-        // Connect to Server-Sent Events endpoint for other events (waitStatus, sessionUpdate)
-        this.eventSource = new EventSource(`${this.baseUrl}/api/tts-events`);
+        // Fallback for server events while the WebSocket is unavailable
+        // EventSource resends the last id on its own reconnects; this covers switching transports
+        this.eventSource = new EventSource(`${this.baseUrl}/api/tts-events${this.lastEventIdQuery()}`);
 
         this.eventSource.onmessage = (event) => {
             try {
                 const data = JSON.parse(event.data);
                 this.debugLog('SSE Event:', data);
-
-                if (data.type === 'waitStatus') {
-                    this.handleWaitStatus(data.isWaiting);
-                } else if (data.type === 'sessionUpdate') {
-                    this.handleSessionUpdate(data);
-                }
-                // Note: 'speak' events now come through WebSocket
+                this.handleServerMessage(data);
             } catch (error) {
                 console.error('Failed to parse SSE event:', error);
             }
@@ -843,6 +1185,81 @@ class VoiceHooksClient {
         };
     }
 
+    lastEventIdQuery() {
+        return this.lastEventId !== null ? `?lastEventId=${this.lastEventId}` : '';
+    }
+
+    // Handles a server message from either transport (shapes in src/ws-protocol.ts)
+    handleServerMessage(data) {
+        const forSelectedSession = !this.selectedSessionId || data.sessionId === this.selectedSessionId;
+        if (data.eventId !== undefined) {
+            this.lastEventId = data.eventId;
+        }
+
+        switch (data.type) {
+            case 'hello':
+                if (data.version !== PROTOCOL_VERSION) {
+                    console.warn(`Server speaks protocol version ${data.version}, this page expects ${PROTOCOL_VERSION}. Reload the page.`);
+                }
+                break;
+            case 'ack':
+                this.handleAck(data);
+                break;
+            case 'speak':
+                if (data.text && data.replayed) {
+                    // Spoken while this page was disconnected; show it without reading out stale responses
+                    this.hideTypingIndicator();
+                    this.hideStatus();
+                    this.addAssistantMessage(data.text);
+                } else if (data.text) {
+                    console.log('🔊 [TTS] Processing speak event:', data.text);
+                    this.handleUnifiedSpeakEvent(data);
+                }
+                break;
+            case 'waitStatus':
+                // Only follow wait status of the session we're talking to
+                if (forSelectedSession) {
+                    this.handleWaitStatus(data.isWaiting);
+                }
+                break;
+            case 'sessionUpdate':
+                this.handleSessionUpdate(data);
+                break;
+            case 'utteranceUpdate':
+                if (forSelectedSession) {
+                    this.loadData();
+                }
+                break;
+            case 'voiceCommand':
+                if (forSelectedSession) {
+                    this.handleVoiceCommand(data);
+                }
+                break;
+            case 'question':
+                if (forSelectedSession) {
+                    this.showQuestion(data);
+                }
+                break;
+            case 'questionEnded':
+                this.hideQuestion(data);
+                break;
+            case 'status':
+                if (forSelectedSession) {
+                    this.showStatus(data);
+                }
+                break;
+            case 'transcript':
+                this.handleServerTranscript(data);
+                break;
+            case 'audio-error':
+                console.error('Server speech recognition error:', data.error);
+                if (this.isListening) {
+                    this.stopListening();
+                }
+                break;
+        }
+    }
+
     populateLanguageFilter() {
         if (!this.languageSelect) return;
         
@@ -1166,15 +1583,7 @@ class VoiceHooksClient {
 
         try {
             // Send preferences to server
-            await fetch(`${this.baseUrl}/api/voice-preferences`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    voiceResponsesEnabled
-                }),
-            });
+            await this.sendRequest({ type: 'voicePreferences', voiceResponsesEnabled }, '/api/voice-preferences');
 
             this.debugLog('Voice preferences updated:', { voiceResponsesEnabled });
         } catch (error) {
@@ -1185,13 +1594,7 @@ class VoiceHooksClient {
     async updateVoiceInputState(active) {
         try {
             // Send voice input state to server
-            await fetch(`${this.baseUrl}/api/voice-input-state`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ active }),
-            });
+            await this.sendRequest({ type: 'voiceInputState', active }, '/api/voice-input-state');
 
             this.debugLog('Voice input state updated:', { active });
         } catch (error) {
@@ -1258,6 +1661,7 @@ class VoiceHooksClient {
         if (isWaiting) {
             // Claude is waiting for voice input
             listeningIndicatorText.textContent = 'Claude is waiting for your voice input...';
+            this.hideStatus();
             this.debugLog('Claude is waiting for voice input');
             
             // Only automatically start voice recognition if auto-listen is enabled
@@ -1293,15 +1697,20 @@ class VoiceHooksClient {
             console.log(`   📍 No session information`);
         }
         
-        // Hide typing indicator
+        // Hide typing indicator and status bar
         this.hideTypingIndicator();
+        this.hideStatus();
         
         // Add assistant message to chat
         this.addAssistantMessage(text);
         
         
-        // Speak the text
-        this.speakText(text);
+        // Play audio rendered by the server if available, otherwise speak with the browser
+        if (data.audioUrl) {
+            this.playSpeechAudio(data.audioUrl, text);
+        } else {
+            this.speakText(text);
+        }
         
         // Log session and instance information (existing debug log)
         if (sessionName && instanceUrl) {
@@ -1313,6 +1722,48 @@ class VoiceHooksClient {
         }
     }
     
+    playSpeechAudio(audioUrl, text) {
+        console.log('🔊 [TTS] Playing server audio:', audioUrl);
+        if (this.currentSpeechAudio) {
+            this.currentSpeechAudio.pause();
+        }
+        const audio = new Audio(`${this.baseUrl}${audioUrl}`);
+        this.currentSpeechAudio = audio;
+
+        audio.onplay = () => {
+            this.debugLog('Started playing speech audio:', text);
+            // Pause voice input during playback
+            if (this.isListening) {
+                this.wasListeningBeforeTTS = true;
+                this.stopListening();
+            }
+        };
+
+        audio.onended = () => {
+            this.debugLog('Finished playing speech audio');
+            // Resume voice input after playback if auto-listen is enabled
+            if (this.autoListenEnabled && (this.wasListeningBeforeTTS || !this.isListening)) {
+                this.wasListeningBeforeTTS = false;
+                setTimeout(() => {
+                    if (!this.isListening) {
+                        this.startListening();
+                    }
+                }, 500);
+            }
+        };
+
+        // Both onerror and the play() promise can report the same failure
+        let fellBack = false;
+        const fallback = (error) => {
+            if (fellBack) return;
+            fellBack = true;
+            console.warn('🔊 [TTS] Server audio failed, using browser speech:', error);
+            this.speakText(text);
+        };
+        audio.onerror = fallback;
+        audio.play().catch(fallback);
+    }
+
     addAssistantMessage(text) {
         console.log('🤖 [CHAT] Adding assistant message:', text);
         this.messages.push({
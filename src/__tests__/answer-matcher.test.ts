@@ -0,0 +1,44 @@
+import { matchChoice, matchConfirmation } from '../answer-matcher';
+
+describe('matchChoice', () => {
+  const choices = ['Postgres', 'SQLite', 'Deploy to staging'];
+
+  it.each([
+    ['sqlite.', 'SQLite'],
+    ['the second one', 'SQLite'],
+    ['option 3', 'Deploy to staging'],
+    ["Let's go with Postgres, please", 'Postgres'],
+    ['staging', 'Deploy to staging'],
+    ['SQLite is the one', 'SQLite']
+  ])('should map "%s" to %s', (answer, choice) => {
+    expect(matchChoice(answer, choices)).toBe(choice);
+  });
+
+  it('should not guess when the answer is ambiguous or unrelated', () => {
+    expect(matchChoice('either postgres or sqlite', choices)).toBeUndefined();
+    expect(matchChoice('one or two', choices)).toBeUndefined();
+    expect(matchChoice('option 7', choices)).toBeUndefined();
+    expect(matchChoice('let me think about it', choices)).toBeUndefined();
+    expect(matchChoice('', choices)).toBeUndefined();
+  });
+});
+
+describe('matchConfirmation', () => {
+  it.each([
+    ['Yes, go ahead.', 'approve'],
+    ['Approve', 'approve'],
+    ['Allow', 'approve'],
+    ['nope', 'deny'],
+    ['Cancel that', 'deny'],
+    ['네', 'approve'],
+    ['Nein, abbrechen', 'deny'],
+    ['はい、お願いします', 'approve']
+  ])('should read "%s" as %s', (answer, decision) => {
+    expect(matchConfirmation(answer)).toBe(decision);
+  });
+
+  it('should not decide unclear or contradictory replies', () => {
+    expect(matchConfirmation('what does it delete?')).toBeUndefined();
+    expect(matchConfirmation("yes, no, I don't know")).toBeUndefined();
+  });
+});
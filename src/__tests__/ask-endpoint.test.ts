@@ -0,0 +1,73 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('POST /api/ask', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer({ MCP_VOICE_HOOKS_COALESCE_MS: '1000' });
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  async function say(text: string, afterMs = 0) {
+    await wait(afterMs);
+    await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text })
+      .expect(200);
+  }
+
+  async function statusOf(text: string): Promise<string | undefined> {
+    const response = await request(server.url).get('/api/utterances?limit=100');
+    return response.body.utterances.find((u: any) => u.text === text)?.status;
+  }
+
+  it('should return the spoken answer and the choice it names', async () => {
+    const [response] = await Promise.all([
+      request(server.url)
+        .post('/api/ask')
+        .send({ question: 'Which database should I use?', choices: ['Staging', 'Production'], timeoutSeconds: 5 }),
+      say('the staging one', 300)
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ answered: true, answer: 'the staging one', choice: 'Staging' });
+    // The tool result carries the answer, so it needs no spoken response
+    expect(await statusOf('the staging one')).toBe('responded');
+  });
+
+  it('should report when nobody answers in time', async () => {
+    const response = await request(server.url)
+      .post('/api/ask')
+      .send({ question: 'Anyone there?', timeoutSeconds: 1 })
+      .expect(200);
+
+    expect(response.body.answered).toBe(false);
+    expect(response.body.message).toContain('did not answer within 1 second');
+  });
+
+  it('should not merge the answer into what was said before the question', async () => {
+    await say('Refactor the parser');
+
+    // Still within the coalescing window of the utterance above
+    const [response] = await Promise.all([
+      request(server.url)
+        .post('/api/ask')
+        .send({ question: 'Should I keep the old API?', timeoutSeconds: 5 }),
+      say('yes keep it', 200)
+    ]);
+
+    expect(response.body).toMatchObject({ answered: true, answer: 'yes keep it' });
+    expect(await statusOf('Refactor the parser')).toBe('pending');
+  });
+
+  it('should reject a missing question or invalid choices', async () => {
+    await request(server.url).post('/api/ask').send({}).expect(400);
+    await request(server.url).post('/api/ask').send({ question: 'Which?', choices: ['A', ''] }).expect(400);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioCache } from '../audio-cache';
+import type { TtsEngine } from '../tts-engine';
+
+describe('AudioCache', () => {
+  let tmpDir: string;
+  let rendered: string[];
+  let engine: TtsEngine;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-cache-'));
+    rendered = [];
+    engine = {
+      name: 'espeak-ng',
+      speak: async () => {},
+      synthesize: async (text, outputFile) => {
+        rendered.push(text);
+        fs.writeFileSync(outputFile, `RIFF ${text}`);
+      }
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should render text once and serve it by hash', async () => {
+    const cache = new AudioCache(tmpDir, engine);
+
+    const hash = await cache.render('Hello there');
+    const again = await cache.render('Hello there');
+
+    expect(again).toBe(hash);
+    expect(rendered).toEqual(['Hello there']);
+    expect(cache.resolve(hash)).toEqual({
+      filePath: path.join(tmpDir, `${hash}.wav`),
+      contentType: 'audio/wav'
+    });
+  });
+
+  it('should share one synthesis between concurrent requests', async () => {
+    const cache = new AudioCache(tmpDir, engine);
+
+    const [a, b] = await Promise.all([cache.render('Same text'), cache.render('Same text')]);
+
+    expect(a).toBe(b);
+    expect(rendered).toHaveLength(1);
+  });
+
+  it('should not resolve unknown or malformed hashes', () => {
+    const cache = new AudioCache(tmpDir, engine);
+
+    expect(cache.resolve('0'.repeat(32))).toBeUndefined();
+    expect(cache.resolve('../../etc/passwd')).toBeUndefined();
+  });
+
+  it('should leave no file behind when synthesis fails', async () => {
+    engine.synthesize = async () => {
+      throw new Error('espeak-ng crashed');
+    };
+    const cache = new AudioCache(tmpDir, engine);
+
+    await expect(cache.render('Hello')).rejects.toThrow('espeak-ng crashed');
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+  });
+
+  it('should refuse engines without audio output', async () => {
+    const cache = new AudioCache(tmpDir, { name: 'null', speak: async () => {} });
+
+    expect(cache.available).toBe(false);
+    await expect(cache.render('Hello')).rejects.toThrow('cannot render audio');
+  });
+
+  it('should keep only the newest files', async () => {
+    const cache = new AudioCache(tmpDir, engine, { maxEntries: 2 });
+
+    const first = await cache.render('One');
+    const old = new Date(Date.now() - 60000);
+    fs.utimesSync(path.join(tmpDir, `${first}.wav`), old, old);
+    await cache.render('Two');
+    await cache.render('Three');
+
+    expect(fs.readdirSync(tmpDir)).toHaveLength(2);
+    expect(cache.resolve(first)).toBeUndefined();
+  });
+});
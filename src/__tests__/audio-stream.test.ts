@@ -0,0 +1,127 @@
+import { AudioStream } from '../audio-stream';
+import type { SttEngine } from '../stt-engine';
+
+const SAMPLE_RATE = 16000;
+
+// 16-bit PCM: a loud square wave for speech, zeros for silence
+function pcm(ms: number, loud: boolean): Buffer {
+  const samples = SAMPLE_RATE * ms / 1000;
+  const buffer = Buffer.alloc(samples * 2);
+  if (loud) {
+    for (let i = 0; i < samples; i++) {
+      buffer.writeInt16LE(i % 40 < 20 ? 8000 : -8000, i * 2);
+    }
+  }
+  return buffer;
+}
+
+// Streams audio in 100ms frames, like a browser capture node would
+function feed(stream: AudioStream, audio: Buffer) {
+  const frameBytes = SAMPLE_RATE / 10 * 2;
+  for (let offset = 0; offset < audio.length; offset += frameBytes) {
+    stream.write(audio.subarray(offset, offset + frameBytes));
+  }
+}
+
+describe('AudioStream', () => {
+  let segments: Buffer[];
+  let engine: SttEngine;
+  let transcripts: { text: string; final: boolean }[];
+
+  beforeEach(() => {
+    segments = [];
+    transcripts = [];
+    // Answers with the segment number and its length so tests can tell segments apart
+    engine = {
+      name: 'stub',
+      transcribe: async (audio: Buffer) => {
+        segments.push(audio);
+        return `segment ${segments.length} (${Math.round((audio.length - 44) / 32)}ms)`;
+      }
+    };
+  });
+
+  function createStream(options: ConstructorParameters<typeof AudioStream>[1] = {}) {
+    const stream = new AudioStream(engine, { sampleRate: SAMPLE_RATE, interimMs: 0, ...options });
+    stream.on('transcript', transcript => transcripts.push(transcript));
+    return stream;
+  }
+
+  it('should cut speech into segments at pauses', async () => {
+    const stream = createStream();
+
+    feed(stream, Buffer.concat([pcm(300, false), pcm(500, true), pcm(800, false), pcm(400, true), pcm(800, false)]));
+    await stream.end();
+
+    expect(transcripts.map(t => t.final)).toEqual([true, true]);
+    expect(transcripts[0].text).toMatch(/^segment 1/);
+    expect(transcripts[1].text).toMatch(/^segment 2/);
+    // WAV files with the pre-roll before speech and the trailing silence
+    expect(segments[0].toString('ascii', 0, 4)).toBe('RIFF');
+    expect(segments[0].length - 44).toBe((200 + 500 + 700) * 32);
+  });
+
+  it('should drop clicks shorter than the minimum speech length', async () => {
+    const stream = createStream();
+
+    feed(stream, Buffer.concat([pcm(100, true), pcm(800, false)]));
+    await stream.end();
+
+    expect(segments).toHaveLength(0);
+    expect(transcripts).toEqual([]);
+  });
+
+  it('should transcribe the segment still being spoken on end', async () => {
+    const stream = createStream();
+
+    feed(stream, pcm(600, true));
+    expect(transcripts).toEqual([]);
+    await stream.end();
+
+    expect(transcripts).toEqual([{ text: 'segment 1 (600ms)', final: true }]);
+  });
+
+  it('should send interim transcripts while speech continues', async () => {
+    const stream = createStream({ interimMs: 500 });
+
+    feed(stream, pcm(1200, true));
+    await new Promise(resolve => setImmediate(resolve));
+    feed(stream, pcm(800, false));
+    await stream.end();
+
+    expect(transcripts[0]).toEqual({ text: 'segment 1 (500ms)', final: false });
+    expect(transcripts[transcripts.length - 1].final).toBe(true);
+  });
+
+  it('should cut monologues at the maximum segment length', async () => {
+    const stream = createStream({ maxSegmentMs: 1000 });
+
+    feed(stream, pcm(2500, true));
+    await stream.end();
+
+    expect(transcripts.map(t => t.text)).toEqual(['segment 1 (1000ms)', 'segment 2 (1000ms)', 'segment 3 (500ms)']);
+  });
+
+  it('should reject sample rates no browser captures at', () => {
+    // Tiny rates would make the VAD window empty and write() loop forever
+    expect(() => new AudioStream(engine, { sampleRate: 24 })).toThrow('Sample rate must be between 8000 and 48000 Hz');
+    expect(() => new AudioStream(engine, { sampleRate: -16000 })).toThrow();
+    expect(() => new AudioStream(engine, { sampleRate: NaN })).toThrow();
+    expect(() => new AudioStream(engine, { sampleRate: 96000 })).toThrow();
+    expect(() => new AudioStream(engine, { sampleRate: 44100 })).not.toThrow();
+  });
+
+  it('should report recognition failures', async () => {
+    engine.transcribe = async () => {
+      throw new Error('whisper crashed');
+    };
+    const stream = createStream();
+    const errors: Error[] = [];
+    stream.on('error', error => errors.push(error));
+
+    feed(stream, Buffer.concat([pcm(500, true), pcm(800, false)]));
+    await stream.end();
+
+    expect(errors.map(e => e.message)).toEqual(['whisper crashed']);
+  });
+});
@@ -0,0 +1,60 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('POST /api/confirm', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer({ MCP_VOICE_HOOKS_CONFIRM_TIMEOUT_DECISION: 'approve' });
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  async function confirmAnswering(answer: string) {
+    const [response] = await Promise.all([
+      request(server.url)
+        .post('/api/confirm')
+        .send({ summary: 'Delete the build directory', timeoutSeconds: 5 }),
+      wait(300).then(() => request(server.url)
+        .post('/api/potential-utterances')
+        .send({ text: answer })
+        .expect(200))
+    ]);
+    expect(response.status).toBe(200);
+    return response.body;
+  }
+
+  it('should approve or deny by what the user said', async () => {
+    expect(await confirmAnswering('yes go ahead')).toMatchObject({ decision: 'approve', reason: 'answered' });
+    expect(await confirmAnswering('no')).toMatchObject({ decision: 'deny', reason: 'answered' });
+  });
+
+  it('should deny when the reply is neither yes nor no', async () => {
+    expect(await confirmAnswering('maybe later')).toMatchObject({
+      decision: 'deny',
+      reason: 'unclear',
+      answer: 'maybe later'
+    });
+  });
+
+  it('should take a voice command phrase as the answer', async () => {
+    // "stop" would otherwise interrupt Claude instead of reaching the question
+    expect(await confirmAnswering('stop')).toMatchObject({ decision: 'deny', reason: 'answered', answer: 'stop' });
+
+    const utterances = await request(server.url).get('/api/utterances?limit=100');
+    expect(utterances.body.utterances.map((u: any) => u.text)).toContain('stop');
+  });
+
+  it('should use the configured decision when nobody answers', async () => {
+    const response = await request(server.url)
+      .post('/api/confirm')
+      .send({ summary: 'Push to main', timeoutSeconds: 1 })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ decision: 'approve', reason: 'timeout' });
+  });
+});
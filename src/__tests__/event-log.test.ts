@@ -0,0 +1,35 @@
+import { EventLog } from '../event-log';
+
+describe('EventLog', () => {
+  it('should number events and return those after a given id', () => {
+    const log = new EventLog<string>(10);
+
+    expect(log.append('a')).toBe(1);
+    expect(log.append('b')).toBe(2);
+    expect(log.append('c')).toBe(3);
+
+    expect(log.since(1)).toEqual([{ id: 2, event: 'b' }, { id: 3, event: 'c' }]);
+    expect(log.since(3)).toEqual([]);
+  });
+
+  it('should keep only the most recent events', () => {
+    const log = new EventLog<string>(2);
+    ['a', 'b', 'c', 'd'].forEach(event => log.append(event));
+
+    expect(log.since(0).map(entry => entry.event)).toEqual(['c', 'd']);
+  });
+
+  it('should replay everything for ids issued before a restart', () => {
+    const previousRun = new EventLog<string>(10, 1000);
+    const lastSeen = previousRun.append('before restart');
+
+    const log = new EventLog<string>(10, 5000);
+    log.append('after restart');
+
+    expect(log.since(lastSeen).map(entry => entry.event)).toEqual(['after restart']);
+    // Ids this log hasn't reached yet can only come from an earlier run too
+    const restartedFromOne = new EventLog<string>(10);
+    restartedFromOne.append('first');
+    expect(restartedFromOne.since(lastSeen).map(entry => entry.event)).toEqual(['first']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describeToolInput, parseHookPayload } from '../hook-payload';
+
+describe('parseHookPayload', () => {
+  it('should parse a PreToolUse payload', () => {
+    const payload = parseHookPayload({
+      session_id: 'abc123',
+      transcript_path: '/home/user/.claude/projects/app/abc123.jsonl',
+      cwd: '/home/user/app',
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Bash',
+      tool_input: { command: 'npm test' }
+    });
+
+    expect(payload).toEqual({
+      sessionId: 'abc123',
+      transcriptPath: '/home/user/.claude/projects/app/abc123.jsonl',
+      cwd: '/home/user/app',
+      hookEventName: 'PreToolUse',
+      toolName: 'Bash',
+      toolInput: { command: 'npm test' },
+      stopHookActive: false
+    });
+  });
+
+  it('should read stop_hook_active from Stop payloads', () => {
+    const payload = parseHookPayload({
+      session_id: 'abc123',
+      hook_event_name: 'Stop',
+      stop_hook_active: true
+    });
+
+    expect(payload.stopHookActive).toBe(true);
+    expect(payload.toolName).toBeUndefined();
+  });
+
+  it('should parse a raw JSON string body', () => {
+    const payload = parseHookPayload('{"session_id":"abc123","tool_name":"Edit"}');
+
+    expect(payload.sessionId).toBe('abc123');
+    expect(payload.toolName).toBe('Edit');
+  });
+
+  it.each([undefined, null, '', 'not json', [], 42])('should return an empty payload for %p', (body) => {
+    expect(parseHookPayload(body)).toEqual({ stopHookActive: false });
+  });
+
+  it('should drop fields with unexpected types', () => {
+    const payload = parseHookPayload({
+      session_id: 42,
+      tool_name: '',
+      tool_input: ['not', 'an', 'object'],
+      stop_hook_active: 'true'
+    });
+
+    expect(payload).toEqual({
+      sessionId: undefined,
+      transcriptPath: undefined,
+      cwd: undefined,
+      hookEventName: undefined,
+      toolName: undefined,
+      toolInput: undefined,
+      stopHookActive: false
+    });
+  });
+});
+
+describe('describeToolInput', () => {
+  it('should prefer the field that says what the tool will do', () => {
+    const payload = parseHookPayload({
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Edit',
+      tool_input: { old_string: 'a', new_string: 'b', file_path: '/app/src/index.ts' }
+    });
+
+    expect(describeToolInput(payload)).toBe('/app/src/index.ts');
+  });
+
+  it('should fall back to the first string field and truncate long values', () => {
+    const payload = parseHookPayload({
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Custom',
+      tool_input: { count: 3, note: `start ${'x'.repeat(200)}` }
+    });
+
+    const summary = describeToolInput(payload);
+    expect(summary.startsWith('start x')).toBe(true);
+    expect(summary).toHaveLength(120);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+
+  it('should return an empty summary without string input', () => {
+    expect(describeToolInput(parseHookPayload({ tool_name: 'Bash' }))).toBe('');
+  });
+});
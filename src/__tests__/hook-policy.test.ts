@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { countsAsToolUse, DEFAULT_POLICY, evaluatePolicy, loadPolicyFile } from '../hook-policy';
+import type { HookPolicy } from '../hook-policy';
+
+type PolicyState = Parameters<typeof evaluatePolicy>[1];
+
+function state(overrides: Partial<PolicyState> = {}): PolicyState {
+  return {
+    action: 'tool',
+    hasPending: false,
+    hasUrgent: false,
+    hasDelivered: false,
+    voiceResponsesEnabled: false,
+    voiceInputActive: true,
+    autoDeliver: true,
+    autoDeliverBeforeTools: false,
+    spokeAfterTools: true,
+    speakReminderIgnored: false,
+    stopHookActive: false,
+    interruptRequested: false,
+    toolsSinceSpeak: 0,
+    secondsSinceSpeak: 0,
+    ...overrides
+  };
+}
+
+describe('evaluatePolicy', () => {
+  describe('default policy', () => {
+    const effect = (overrides: Partial<PolicyState>) => evaluatePolicy(DEFAULT_POLICY, state(overrides)).then;
+
+    it('should interrupt the next tool after the user said stop', () => {
+      expect(effect({ interruptRequested: true, hasPending: true, autoDeliverBeforeTools: true })).toBe('interrupt');
+      expect(effect({ interruptRequested: true, action: 'post-tool' })).toBe('approve');
+    });
+
+    it('should ask for manual dequeue when auto-deliver is off', () => {
+      expect(effect({ hasPending: true, autoDeliver: false })).toBe('request-dequeue');
+    });
+
+    it('should deliver pending utterances on non-tool actions', () => {
+      expect(effect({ hasPending: true, action: 'stop' })).toBe('deliver');
+      expect(effect({ hasPending: true, action: 'post-tool' })).toBe('deliver');
+    });
+
+    it('should only deliver before tools when enabled', () => {
+      expect(effect({ hasPending: true, action: 'tool' })).toBe('approve');
+      expect(effect({ hasPending: true, action: 'tool', autoDeliverBeforeTools: true })).toBe('deliver');
+    });
+
+    it('should deliver urgent utterances before any tool', () => {
+      expect(effect({ hasPending: true, hasUrgent: true, action: 'tool' })).toBe('deliver');
+      expect(effect({ hasPending: true, hasUrgent: true, autoDeliver: false })).toBe('request-dequeue');
+    });
+
+    it('should require a spoken response to delivered utterances', () => {
+      expect(effect({ hasDelivered: true, voiceResponsesEnabled: true, action: 'tool' })).toBe('require-speak');
+      expect(effect({ hasDelivered: true, voiceResponsesEnabled: true, action: 'speak' })).toBe('approve');
+      expect(effect({ hasDelivered: true, voiceResponsesEnabled: false, action: 'tool' })).toBe('approve');
+    });
+
+    it('should require speaking after tools before waiting or stopping', () => {
+      expect(effect({ action: 'wait', voiceResponsesEnabled: true, spokeAfterTools: false })).toBe('speak-after-tools');
+      expect(effect({ action: 'stop', voiceResponsesEnabled: true, spokeAfterTools: false })).toBe('speak-after-tools');
+      expect(effect({ action: 'wait', voiceResponsesEnabled: true })).toBe('approve');
+    });
+
+    it('should not repeat the speak reminder within a stop-hook continuation', () => {
+      expect(effect({
+        action: 'stop',
+        voiceResponsesEnabled: true,
+        spokeAfterTools: false,
+        speakReminderIgnored: true
+      })).toBe('wait');
+    });
+
+    it('should wait on stop in auto mode and ask for a wait in manual mode', () => {
+      expect(effect({ action: 'stop' })).toBe('wait');
+      expect(effect({ action: 'stop', autoDeliver: false })).toBe('request-wait');
+    });
+  });
+
+  describe('custom rules', () => {
+    it('should match tool patterns against the whole tool name', () => {
+      const policy: HookPolicy = {
+        name: 'test',
+        rules: [{ name: 'read-only', when: { tool: 'Read|Grep|mcp__github__.*' }, then: 'block' }]
+      };
+
+      expect(evaluatePolicy(policy, state({ toolName: 'Grep' })).then).toBe('block');
+      expect(evaluatePolicy(policy, state({ toolName: 'mcp__github__create_issue' })).then).toBe('block');
+      expect(evaluatePolicy(policy, state({ toolName: 'ReadFile' })).then).toBe('approve');
+      expect(evaluatePolicy(policy, state()).then).toBe('approve');
+    });
+
+    it('should match minimum counts since the last speak', () => {
+      const policy: HookPolicy = {
+        name: 'test',
+        rules: [{ when: { minToolsSinceSpeak: 5, minSecondsSinceSpeak: 60 }, then: 'speak-after-tools' }]
+      };
+
+      expect(evaluatePolicy(policy, state({ toolsSinceSpeak: 5, secondsSinceSpeak: 61 })).then).toBe('speak-after-tools');
+      expect(evaluatePolicy(policy, state({ toolsSinceSpeak: 4, secondsSinceSpeak: 61 })).then).toBe('approve');
+      expect(evaluatePolicy(policy, state({ toolsSinceSpeak: 5, secondsSinceSpeak: 10 })).then).toBe('approve');
+    });
+
+    it('should count each tool call once toward minToolsSinceSpeak', () => {
+      const policy: HookPolicy = {
+        name: 'test',
+        rules: [{ when: { action: 'tool', minToolsSinceSpeak: 10 }, then: 'speak-after-tools' }]
+      };
+
+      // Each tool call approves a pre-tool and a post-tool hook
+      let toolsSinceSpeak = 0;
+      const runTools = (count: number) => {
+        for (let i = 0; i < count; i++) {
+          for (const action of ['tool', 'post-tool'] as const) {
+            if (countsAsToolUse(action)) {
+              toolsSinceSpeak++;
+            }
+          }
+        }
+      };
+
+      runTools(5);
+      expect(evaluatePolicy(policy, state({ toolsSinceSpeak })).then).toBe('approve');
+      runTools(5);
+      expect(evaluatePolicy(policy, state({ toolsSinceSpeak })).then).toBe('speak-after-tools');
+    });
+
+    it('should return an implicit approve when no rule matches', () => {
+      const rule = evaluatePolicy({ name: 'empty', rules: [] }, state());
+
+      expect(rule).toEqual({ name: 'implicit-approve', then: 'approve' });
+    });
+  });
+});
+
+describe('loadPolicyFile', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hook-policy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writePolicy(content: unknown): string {
+    const filePath = path.join(tmpDir, 'policy.json');
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+    return filePath;
+  }
+
+  it('should load a valid policy', () => {
+    const policy = loadPolicyFile(writePolicy({
+      name: 'quiet-reads',
+      rules: [{ when: { action: 'tool', tool: 'Read|Grep' }, then: 'approve' }]
+    }));
+
+    expect(policy.name).toBe('quiet-reads');
+    expect(policy.rules).toHaveLength(1);
+  });
+
+  it('should name unnamed policies "custom"', () => {
+    expect(loadPolicyFile(writePolicy({ rules: [] })).name).toBe('custom');
+  });
+
+  it.each([
+    [{}, 'Policy must be an object with a "rules" array'],
+    [{ rules: [{ then: 'explode' }] }, 'Rule 1 has unknown effect "explode"'],
+    [{ rules: [{ name: 'x', when: { action: 'jump' }, then: 'approve' }] }, 'Rule 1 (x) has unknown action "jump"'],
+    [{ rules: [{ then: 'approve' }, { when: { tool: '(' }, then: 'block' }] }, 'Rule 2 has an invalid tool pattern']
+  ])('should reject %j', (content, message) => {
+    expect(() => loadPolicyFile(writePolicy(content))).toThrow(message);
+  });
+
+  it('should reject malformed JSON', () => {
+    expect(() => loadPolicyFile(writePolicy('{ not json'))).toThrow();
+  });
+});
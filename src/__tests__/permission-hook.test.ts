@@ -0,0 +1,76 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('POST /api/hooks/permission', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    // Edit and Write are also on the default ask list
+    server = await startLiveServer({
+      MCP_VOICE_HOOKS_PERMISSION_DENY_TOOLS: 'WebFetch, Edit',
+      MCP_VOICE_HOOKS_PERMISSION_ALLOW_TOOLS: 'WebFetch, Write',
+      MCP_VOICE_HOOKS_PERMISSION_TIMEOUT_SECONDS: '1'
+    });
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  async function setVoiceInput(active: boolean) {
+    await request(server.url)
+      .post('/api/voice-input-state')
+      .send({ active })
+      .expect(200);
+  }
+
+  function permission(toolName: string) {
+    return request(server.url)
+      .post('/api/hooks/permission')
+      .send({ session_id: 'session-permissions', hook_event_name: 'PreToolUse', tool_name: toolName, tool_input: { command: 'npm test' } });
+  }
+
+  async function permissionAnswering(toolName: string, answer: string) {
+    const [response] = await Promise.all([
+      permission(toolName),
+      wait(300).then(() => request(server.url)
+        .post('/api/potential-utterances')
+        .send({ text: answer, sessionId: 'session-permissions' })
+        .expect(200))
+    ]);
+    expect(response.status).toBe(200);
+    return response.body;
+  }
+
+  it('should apply the deny list, then the allow list, before asking', async () => {
+    await setVoiceInput(true);
+
+    expect((await permission('WebFetch')).body.decision).toBe('block');
+    expect((await permission('Edit')).body.decision).toBe('block');
+    expect((await permission('Write')).body.decision).toBe('approve');
+  });
+
+  it('should leave the decision to Claude Code when it cannot ask', async () => {
+    await setVoiceInput(true);
+    expect((await permission('Glob')).body).toEqual({});
+
+    await setVoiceInput(false);
+    expect((await permission('Bash')).body).toEqual({});
+  });
+
+  it('should allow or deny by what the user said', async () => {
+    await setVoiceInput(true);
+
+    expect(await permissionAnswering('Bash', 'yes')).toMatchObject({ decision: 'approve' });
+    expect(await permissionAnswering('Bash', 'no, not now')).toMatchObject({ decision: 'block' });
+  });
+
+  it('should fall back to the permission prompt on an unclear reply or no reply', async () => {
+    await setVoiceInput(true);
+
+    expect(await permissionAnswering('Bash', 'what does it do')).toEqual({});
+    expect((await permission('Bash')).body).toEqual({});
+  });
+});
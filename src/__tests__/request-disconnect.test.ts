@@ -0,0 +1,54 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Caller disconnects', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer();
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  async function statusOf(id: string): Promise<string | undefined> {
+    const response = await request(server.url).get('/api/utterances?limit=100');
+    return response.body.utterances.find((u: any) => u.id === id)?.status;
+  }
+
+  async function addUtterance(text: string): Promise<string> {
+    const response = await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text });
+    expect(response.status).toBe(200);
+    return response.body.utterance.id;
+  }
+
+  it('should leave utterances pending when the waiting caller goes away', async () => {
+    // The client gives up (like a hook's curl killed by Esc) while the server is still waiting
+    await expect(
+      request(server.url).post('/api/wait-for-utterances').send({}).timeout(300)
+    ).rejects.toThrow();
+    await wait(100);
+
+    const id = await addUtterance('nobody is listening');
+    await wait(100);
+
+    expect(await statusOf(id)).toBe('pending');
+  });
+
+  it('should keep utterances delivered once the response has been sent', async () => {
+    const pendingWait = request(server.url).post('/api/wait-for-utterances').send({});
+    await wait(300);
+
+    const id = await addUtterance('hello there');
+    const response = await pendingWait;
+    expect(response.body.utterances.map((u: any) => u.id)).toContain(id);
+    await wait(100);
+
+    expect(await statusOf(id)).toBe('delivered');
+  });
+});
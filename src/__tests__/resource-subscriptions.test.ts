@@ -0,0 +1,38 @@
+import { ResourceSubscriptions } from '../resource-subscriptions';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ResourceSubscriptions', () => {
+  it('should report each changed resource once per batch', async () => {
+    const subscriptions = new ResourceSubscriptions(10);
+    const updated: string[] = [];
+    subscriptions.on('updated', uri => updated.push(uri));
+    subscriptions.subscribe('voice://utterances/pending');
+    subscriptions.subscribe('voice://conversation/recent');
+
+    subscriptions.changed('voice://utterances/pending');
+    subscriptions.changed('voice://utterances/pending', 'voice://conversation/recent');
+    expect(updated).toEqual([]);
+
+    await wait(30);
+    expect(updated).toEqual(['voice://utterances/pending', 'voice://conversation/recent']);
+
+    subscriptions.changed('voice://conversation/recent');
+    await wait(30);
+    expect(updated).toHaveLength(3);
+  });
+
+  it('should ignore resources nobody subscribed to', async () => {
+    const subscriptions = new ResourceSubscriptions(10);
+    const updated: string[] = [];
+    subscriptions.on('updated', uri => updated.push(uri));
+    subscriptions.subscribe('voice://preferences');
+
+    subscriptions.changed('voice://utterances/pending');
+    subscriptions.changed('voice://preferences');
+    subscriptions.unsubscribe('voice://preferences');
+
+    await wait(30);
+    expect(updated).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { SessionRegistry, DEFAULT_SESSION_ID } from '../session-registry';
+import { InMemoryUtteranceQueue } from '../utterance-queue';
+
+describe('SessionRegistry', () => {
+  let registry: SessionRegistry;
+
+  beforeEach(() => {
+    registry = new SessionRegistry(() => new InMemoryUtteranceQueue());
+  });
+
+  describe('getOrCreate', () => {
+    it('should create a session with its own queue on first use', () => {
+      const a = registry.getOrCreate('session-a');
+      const b = registry.getOrCreate('session-b');
+
+      a.queue.add('For A');
+
+      expect(a.queue).not.toBe(b.queue);
+      expect(b.queue.utterances).toHaveLength(0);
+      expect(registry.getOrCreate('session-a')).toBe(a);
+    });
+
+    it('should fall back to the default session without an id', () => {
+      const session = registry.getOrCreate(undefined);
+
+      expect(session.id).toBe(DEFAULT_SESSION_ID);
+      expect(session.name).toBe('Default');
+    });
+
+    it('should name sessions after their project directory', () => {
+      const session = registry.getOrCreate('0123456789abcdef', { projectPath: '/home/user/my-project' });
+
+      expect(session.name).toBe('my-project (01234567)');
+      expect(session.projectPath).toBe('/home/user/my-project');
+    });
+
+    it('should emit changed when a session is created or renamed', () => {
+      const changed: string[] = [];
+      registry.on('changed', session => changed.push(session.name));
+
+      registry.getOrCreate('0123456789abcdef');
+      registry.getOrCreate('0123456789abcdef');
+      registry.getOrCreate('0123456789abcdef', { projectPath: '/tmp/app' });
+
+      expect(changed).toEqual(['01234567', 'app (01234567)']);
+    });
+
+    it('should keep speak-after-tool state per session', () => {
+      const a = registry.getOrCreate('session-a');
+      const b = registry.getOrCreate('session-b');
+
+      a.lastToolUseTimestamp = new Date();
+
+      expect(b.lastToolUseTimestamp).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the most recently active session when no id is given', () => {
+      registry.touch('session-a');
+      const b = registry.touch('session-b');
+      b.lastActivity = new Date(Date.now() + 1000);
+
+      expect(registry.resolve()?.id).toBe('session-b');
+
+      const a = registry.touch('session-a');
+      a.lastActivity = new Date(Date.now() + 2000);
+
+      expect(registry.resolve()?.id).toBe('session-a');
+    });
+
+    it('should prefer the most recently active session in the caller\'s project', () => {
+      registry.touch('session-a', { projectPath: '/work/api' });
+      const b = registry.touch('session-b', { projectPath: '/work/web' });
+      b.lastActivity = new Date(Date.now() + 1000);
+
+      expect(registry.resolve(undefined, '/work/api')?.id).toBe('session-a');
+      expect(registry.resolve(undefined, '/work/web')?.id).toBe('session-b');
+      expect(registry.resolve(undefined, '/work/other')?.id).toBe('session-b');
+    });
+
+    it('should return the default session when nothing is registered', () => {
+      expect(registry.resolve()?.id).toBe(DEFAULT_SESSION_ID);
+    });
+
+    it('should return undefined for an unknown explicit id', () => {
+      registry.touch('session-a');
+
+      expect(registry.resolve('missing')).toBeUndefined();
+      expect(registry.resolve('session-a')?.id).toBe('session-a');
+    });
+  });
+
+  describe('list', () => {
+    it('should list sessions most recently active first', () => {
+      const a = registry.touch('session-a');
+      const b = registry.touch('session-b');
+      a.lastActivity = new Date(Date.now() + 1000);
+
+      expect(registry.list().map(s => s.id)).toEqual([a.id, b.id]);
+    });
+  });
+});
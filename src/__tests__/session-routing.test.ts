@@ -0,0 +1,49 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+describe('Session routing', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer();
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should route MCP tool calls to the session working in the caller\'s project', async () => {
+    // Two Claude Code sessions in different projects; session-b is the most recently active
+    await request(server.url)
+      .post('/api/hooks/pre-tool')
+      .send({ session_id: 'session-a', cwd: '/work/api', tool_name: 'Read' })
+      .expect(200);
+    await request(server.url)
+      .post('/api/hooks/pre-tool')
+      .send({ session_id: 'session-b', cwd: '/work/web', tool_name: 'Read' })
+      .expect(200);
+
+    await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text: 'For the API session', sessionId: 'session-a' })
+      .expect(200);
+    await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text: 'For the web session', sessionId: 'session-b' })
+      .expect(200);
+
+    // The MCP server sends the directory it was started in
+    const fromApi = await request(server.url)
+      .post('/api/dequeue-utterances')
+      .send({ projectPath: '/work/api' })
+      .expect(200);
+    expect(fromApi.body.utterances.map((u: any) => u.text)).toEqual(['For the API session']);
+
+    // Without a project match it falls back to the most recently active session
+    const fromElsewhere = await request(server.url)
+      .post('/api/dequeue-utterances')
+      .send({ projectPath: '/work/other' })
+      .expect(200);
+    expect(fromElsewhere.body.utterances.map((u: any) => u.text)).toEqual(['For the web session']);
+  });
+});
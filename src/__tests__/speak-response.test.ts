@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Spoken responses', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer();
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should link a speak tool response to the utterances it answers', async () => {
+    const hook = { session_id: 'session-speak', cwd: '/work/app' };
+    await request(server.url)
+      .post('/api/voice-preferences')
+      .send({ voiceResponsesEnabled: true })
+      .expect(200);
+    await request(server.url)
+      .post('/api/hooks/pre-tool')
+      .send({ ...hook, hook_event_name: 'PreToolUse', tool_name: 'Read' })
+      .expect(200);
+
+    const question = await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text: 'What time is it', sessionId: 'session-speak' })
+      .expect(200);
+    const questionId = question.body.utterance.id;
+
+    // The stop hook hands the utterance to Claude
+    const stop = await request(server.url)
+      .post('/api/hooks/stop')
+      .send({ ...hook, hook_event_name: 'Stop' })
+      .expect(200);
+    expect(stop.body.decision).toBe('block');
+
+    // Claude answers with the speak tool: PreToolUse hook, the tool call itself, then PostToolUse
+    const preSpeak = await request(server.url)
+      .post('/api/hooks/pre-speak')
+      .send({ ...hook, hook_event_name: 'PreToolUse', tool_name: 'mcp__voice-hooks__speak', tool_input: { text: 'It is noon' } })
+      .expect(200);
+    expect(preSpeak.body.decision).toBe('approve');
+
+    await request(server.url)
+      .post('/api/speak')
+      .send({ text: 'It is noon', projectPath: '/work/app' })
+      .expect(200);
+
+    // The post-speak hook waits for the next utterance
+    const postSpeak = request(server.url)
+      .post('/api/hooks/post-speak')
+      .send({ ...hook, hook_event_name: 'PostToolUse', tool_name: 'mcp__voice-hooks__speak', tool_input: { text: 'It is noon' } })
+      .then(response => response);
+    await wait(300);
+    await request(server.url)
+      .post('/api/potential-utterances')
+      .send({ text: 'Thanks', sessionId: 'session-speak' })
+      .expect(200);
+    expect((await postSpeak).body.decision).toBe('approve');
+
+    const conversation = await request(server.url)
+      .get('/api/conversation?sessionId=session-speak')
+      .expect(200);
+    const entries = conversation.body.entries;
+
+    expect(entries.map((e: any) => [e.role, e.text])).toEqual([
+      ['user', 'What time is it'],
+      ['assistant', 'It is noon'],
+      ['user', 'Thanks']
+    ]);
+    expect(entries[0].status).toBe('responded');
+    expect(entries[1].utteranceIds).toEqual([questionId]);
+  });
+});
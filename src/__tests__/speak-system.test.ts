@@ -0,0 +1,40 @@
+import request from 'supertest';
+import { startLiveServer, LiveServer } from '../test-utils/live-server';
+
+describe('POST /api/speak-system', () => {
+  let server: LiveServer;
+
+  beforeAll(async () => {
+    server = await startLiveServer();
+  }, 60000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should speak with the default or a valid rate', async () => {
+    await request(server.url)
+      .post('/api/speak-system')
+      .send({ text: 'Default rate' })
+      .expect(200);
+    await request(server.url)
+      .post('/api/speak-system')
+      .send({ text: 'Faster', rate: '220' })
+      .expect(200);
+  });
+
+  it.each([
+    ['not a number', 'fast'],
+    ['an option', '-v'],
+    ['a fraction', 150.5],
+    ['too slow', 10],
+    ['too fast', 100000]
+  ])('should reject a rate that is %s', async (_description, rate) => {
+    const response = await request(server.url)
+      .post('/api/speak-system')
+      .send({ text: 'Hello', rate })
+      .expect(400);
+
+    expect(response.body.error).toContain('rate must be');
+  });
+});
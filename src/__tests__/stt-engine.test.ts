@@ -0,0 +1,37 @@
+import { createSttEngine, UnsupportedAudioError } from '../stt-engine';
+import { useFakePath } from '../test-utils/fake-path';
+
+describe('createSttEngine', () => {
+  const { installCommand } = useFakePath('stt-engine-');
+
+  it('should find no engine when nothing is installed', () => {
+    expect(createSttEngine()).toBeUndefined();
+  });
+
+  it('should prefer whisper.cpp when a model is configured', () => {
+    installCommand('whisper-cli');
+    installCommand('vosk-transcriber');
+
+    expect(createSttEngine({ whisperModel: '/models/ggml-base.en.bin' })?.name).toBe('whisper');
+    expect(createSttEngine()?.name).toBe('vosk');
+  });
+
+  it('should return the configured text from the stub engine', async () => {
+    const engine = createSttEngine({ engine: 'stub', stubText: 'hello from the stub' });
+
+    await expect(engine?.transcribe(Buffer.from('RIFF'), 'audio/wav')).resolves.toBe('hello from the stub');
+  });
+
+  it('should refuse compressed audio without ffmpeg', async () => {
+    installCommand('vosk-transcriber');
+    const engine = createSttEngine({ engine: 'vosk' });
+
+    await expect(engine?.transcribe(Buffer.from('webm'), 'audio/webm;codecs=opus')).rejects.toThrow(UnsupportedAudioError);
+  });
+
+  it('should reject unknown engines and whisper without a model or executable', () => {
+    expect(() => createSttEngine({ engine: 'deepspeech' })).toThrow('Unknown STT engine "deepspeech"');
+    expect(() => createSttEngine({ engine: 'whisper' })).toThrow('needs a model');
+    expect(() => createSttEngine({ engine: 'whisper', whisperModel: '/models/ggml-base.en.bin' })).toThrow('needs whisper.cpp installed');
+  });
+});
@@ -0,0 +1,41 @@
+import { ToolMatcher, matchesToolPattern } from '../tool-matcher';
+
+describe('matchesToolPattern', () => {
+  it('should match the whole tool name', () => {
+    expect(matchesToolPattern('Bash', 'Bash')).toBe(true);
+    expect(matchesToolPattern('Bash', 'BashOutput')).toBe(false);
+    expect(matchesToolPattern('Edit|Write', 'Write')).toBe(true);
+    expect(matchesToolPattern('Edit|Write', 'MultiEdit')).toBe(false);
+    expect(matchesToolPattern('mcp__github__.*', 'mcp__github__create_issue')).toBe(true);
+  });
+});
+
+describe('ToolMatcher', () => {
+  it('should parse a comma-separated pattern list', () => {
+    const matcher = ToolMatcher.parse(' Bash, Edit|Write ,, mcp__github__.* ');
+
+    expect(matcher.patterns).toEqual(['Bash', 'Edit|Write', 'mcp__github__.*']);
+    expect(matcher.matches('Edit')).toBe(true);
+    expect(matcher.matches('mcp__github__list_prs')).toBe(true);
+    expect(matcher.matches('Read')).toBe(false);
+  });
+
+  it('should match nothing when no patterns are configured', () => {
+    const matcher = ToolMatcher.parse(undefined);
+
+    expect(matcher.matches('Bash')).toBe(false);
+    expect(matcher.describe()).toBe('none');
+  });
+
+  it('should only match a missing tool name with catch-all patterns', () => {
+    expect(new ToolMatcher(['.*']).matches(undefined)).toBe(true);
+    expect(new ToolMatcher(['Bash']).matches(undefined)).toBe(false);
+  });
+
+  it('should skip invalid patterns', () => {
+    const matcher = new ToolMatcher(['(', 'Bash']);
+
+    expect(matcher.patterns).toEqual(['Bash']);
+    expect(matcher.matches('Bash')).toBe(true);
+  });
+});
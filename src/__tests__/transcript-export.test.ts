@@ -0,0 +1,58 @@
+import { exportTranscript, isExportFormat } from '../transcript-export';
+import type { ConversationEntry } from '../types';
+
+describe('exportTranscript', () => {
+  const at = (time: string) => new Date(`2026-03-02T${time}Z`);
+
+  const entries: ConversationEntry[] = [
+    { role: 'user', id: 'u1', text: 'Why is the build failing?', timestamp: at('10:00:00'), status: 'responded' },
+    { role: 'assistant', id: 'r1', text: 'A missing import in the parser', timestamp: at('10:00:05'), utteranceIds: ['u1'] },
+    { role: 'user', id: 'u2', text: 'Fix it\nplease', timestamp: at('11:30:00'), status: 'pending' }
+  ];
+  const sessions = [{ id: 'abc123', name: 'api-server', entries }];
+
+  it('should render Markdown with session, times and statuses', () => {
+    const { contentType, body } = exportTranscript(sessions, 'md');
+
+    expect(contentType).toBe('text/markdown; charset=utf-8');
+    expect(body).toContain('## api-server (`abc123`)');
+    expect(body).toContain('- **2026-03-02 10:00:00 User** _(responded)_: Why is the build failing?');
+    expect(body).toContain('- **2026-03-02 10:00:05 Claude**: A missing import in the parser');
+    expect(body).toContain('- **2026-03-02 11:30:00 User** _(pending)_: Fix it please');
+  });
+
+  it('should render one plain text line per entry', () => {
+    const { body } = exportTranscript(sessions, 'txt');
+
+    expect(body.trim().split('\n')).toEqual([
+      '[2026-03-02 10:00:00] api-server | User (responded): Why is the build failing?',
+      '[2026-03-02 10:00:05] api-server | Claude: A missing import in the parser',
+      '[2026-03-02 11:30:00] api-server | User (pending): Fix it please'
+    ]);
+  });
+
+  it('should render subtitles timed from the first entry', () => {
+    const { body } = exportTranscript(sessions, 'srt');
+
+    expect(body.split('\n\n')[0]).toBe('1\n00:00:00,000 --> 00:00:02,000\nUser: Why is the build failing?');
+    expect(body).toContain('2\n00:00:05,000 --> 00:00:07,400\nClaude: A missing import in the parser');
+    expect(body).toContain('3\n01:30:00,000 --> 01:30:02,000\n');
+  });
+
+  it('should filter by date range and drop sessions left empty', () => {
+    const other = { id: 'old', name: 'old-session', entries: [entries[0]] };
+
+    const { body } = exportTranscript([...sessions, other], 'json', { from: at('10:00:01'), to: at('12:00:00') });
+    const data = JSON.parse(body);
+
+    expect(data.sessions).toHaveLength(1);
+    expect(data.sessions[0].entries.map((e: ConversationEntry) => e.id)).toEqual(['r1', 'u2']);
+    expect(data.from).toBe('2026-03-02T10:00:01.000Z');
+  });
+
+  it('should only accept known formats', () => {
+    expect(['md', 'json', 'srt', 'txt'].every(isExportFormat)).toBe(true);
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { createTtsEngine } from '../tts-engine';
+import { useFakePath } from '../test-utils/fake-path';
+
+// Record commands instead of running them; the fake executables only exist for detection
+jest.mock('child_process', () => ({
+  ...jest.requireActual('child_process'),
+  execFile: jest.fn((...args: any[]) => args[args.length - 1](null, '', ''))
+}));
+
+describe('createTtsEngine', () => {
+  const fakePath = useFakePath('tts-engine-');
+  const { installCommand } = fakePath;
+
+  if (process.platform !== 'darwin') {
+    it('should auto-detect espeak-ng', () => {
+      installCommand('espeak-ng');
+
+      expect(createTtsEngine().name).toBe('espeak-ng');
+    });
+
+    it('should prefer piper when a voice model is configured', () => {
+      installCommand('piper');
+      installCommand('espeak-ng');
+
+      expect(createTtsEngine({ piperModel: '/models/en_US-amy.onnx' }).name).toBe('piper');
+      expect(createTtsEngine().name).toBe('espeak-ng');
+    });
+
+    it('should pass the text to espeak-ng after the options', async () => {
+      installCommand('espeak-ng');
+
+      // Text starting with a dash must not be read as an option
+      await createTtsEngine().speak('-w /tmp/overwritten.wav', { rate: 180 });
+
+      expect(execFile).toHaveBeenCalledWith('espeak-ng', ['-s', '180', '--', '-w /tmp/overwritten.wav'], expect.any(Function));
+    });
+
+    it('should fall back to the null engine when nothing is installed', async () => {
+      const engine = createTtsEngine();
+
+      expect(engine.name).toBe('null');
+      await expect(engine.speak('Hello')).resolves.toBeUndefined();
+    });
+  }
+
+  it('should append spoken text with the file engine', async () => {
+    const outputFile = path.join(fakePath.tmpDir, 'out', 'spoken.log');
+    const engine = createTtsEngine({ engine: 'file', outputFile });
+
+    await engine.speak('First');
+    await engine.speak('Second');
+
+    const lines = fs.readFileSync(outputFile, 'utf8').trim().split('\n');
+    expect(lines.map(line => line.split('\t')[1])).toEqual(['First', 'Second']);
+  });
+
+  it('should reject unknown engines and piper without a model', () => {
+    expect(() => createTtsEngine({ engine: 'festival' })).toThrow('Unknown TTS engine "festival"');
+    expect(() => createTtsEngine({ engine: 'piper' })).toThrow('needs a voice model');
+  });
+});
@@ -1,4 +1,4 @@
-import { InMemoryUtteranceQueue } from '../utterance-queue';
+import { InMemoryUtteranceQueue, UtteranceEditError } from '../utterance-queue';
 
 describe('InMemoryUtteranceQueue', () => {
   let queue: InMemoryUtteranceQueue;
@@ -30,6 +30,11 @@ describe('InMemoryUtteranceQueue', () => {
       
       expect(utterance1.id).not.toBe(utterance2.id);
     });
+
+    it('should only flag urgent utterances', () => {
+      expect(queue.add('Use the staging database', undefined, { urgent: true }).urgent).toBe(true);
+      expect(queue.add('Thanks').urgent).toBeUndefined();
+    });
   });
 
   describe('getRecent', () => {
@@ -68,6 +73,15 @@ describe('InMemoryUtteranceQueue', () => {
       expect(recent[1].text).toBe('Second');
     });
 
+    it('should leave the queue in insertion order', () => {
+      queue.add('First', new Date('2024-01-01T10:00:00Z'));
+      queue.add('Second', new Date('2024-01-01T10:00:01Z'));
+
+      queue.getRecent();
+
+      expect(queue.utterances.map(u => u.text)).toEqual(['First', 'Second']);
+    });
+
     it('should default to limit of 10', () => {
       // Add 15 utterances with explicit timestamps
       const baseTime = new Date('2024-01-01T10:00:00Z');
@@ -102,6 +116,355 @@ describe('InMemoryUtteranceQueue', () => {
     });
   });
 
+  describe('markPending', () => {
+    it('should return a delivered utterance to pending', () => {
+      const utterance = queue.add('Test utterance');
+      queue.markDelivered(utterance.id);
+
+      queue.markPending(utterance.id);
+
+      expect(utterance.status).toBe('pending');
+    });
+
+    it('should wake waiters when an utterance returns to pending', async () => {
+      const utterance = queue.add('Test utterance');
+      queue.markDelivered(utterance.id);
+
+      const waiting = queue.waitForPending(5000);
+      queue.markPending(utterance.id);
+
+      await expect(waiting).resolves.toBe(true);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove and return the utterance', () => {
+      const first = queue.add('First');
+      queue.add('Second');
+
+      const removed = queue.remove(first.id);
+
+      expect(removed?.text).toBe('First');
+      expect(queue.utterances.map(u => u.text)).toEqual(['Second']);
+    });
+
+    it('should return undefined for unknown IDs', () => {
+      expect(queue.remove('non-existent-id')).toBeUndefined();
+    });
+  });
+
+  describe('removeLastPending', () => {
+    it('should remove the newest pending utterance', () => {
+      queue.add('First', new Date('2024-01-01T10:00:00Z'));
+      queue.add('Second', new Date('2024-01-01T10:01:00Z'));
+      const delivered = queue.add('Third', new Date('2024-01-01T10:02:00Z'));
+      queue.markDelivered(delivered.id);
+
+      expect(queue.removeLastPending()?.text).toBe('Second');
+      expect(queue.utterances.map(u => u.text)).toEqual(['First', 'Third']);
+    });
+
+    it('should return undefined when nothing is pending', () => {
+      expect(queue.removeLastPending()).toBeUndefined();
+    });
+  });
+
+  describe('updateText', () => {
+    it('should replace the text of a pending utterance', () => {
+      const utterance = queue.add('Use a hash nap');
+      const updated: string[] = [];
+      queue.on('updated', u => updated.push(u.text));
+
+      queue.updateText(utterance.id, ' Use a hash map ');
+
+      expect(queue.utterances[0].text).toBe('Use a hash map');
+      expect(updated).toEqual(['Use a hash map']);
+    });
+
+    it('should refuse to edit delivered utterances', () => {
+      const utterance = queue.add('Original');
+      queue.markDelivered(utterance.id);
+
+      expect(() => queue.updateText(utterance.id, 'Edited')).toThrow(
+        expect.objectContaining({ code: 'not-pending' })
+      );
+      expect(queue.utterances[0].text).toBe('Original');
+    });
+
+    it('should reject unknown IDs and empty text', () => {
+      const utterance = queue.add('Original');
+
+      expect(() => queue.updateText('missing', 'Edited')).toThrow(expect.objectContaining({ code: 'not-found' }));
+      expect(() => queue.updateText(utterance.id, '  ')).toThrow(expect.objectContaining({ code: 'invalid' }));
+    });
+  });
+
+  describe('retract', () => {
+    it('should remove a pending utterance', () => {
+      const utterance = queue.add('Oops');
+
+      expect(queue.retract(utterance.id).text).toBe('Oops');
+      expect(queue.utterances).toHaveLength(0);
+    });
+
+    it('should refuse to retract delivered utterances', () => {
+      const utterance = queue.add('Already sent');
+      queue.markDelivered(utterance.id);
+
+      expect(() => queue.retract(utterance.id)).toThrow(UtteranceEditError);
+      expect(queue.utterances).toHaveLength(1);
+    });
+  });
+
+  describe('merge', () => {
+    it('should combine consecutive pending utterances into the earliest', () => {
+      const first = queue.add('Refactor the', new Date('2024-01-01T10:00:00Z'));
+      const second = queue.add('parser module', new Date('2024-01-01T10:00:02Z'));
+      const third = queue.add('please', new Date('2024-01-01T10:00:03Z'));
+
+      const merged = queue.merge([third.id, first.id, second.id]);
+
+      expect(merged.id).toBe(first.id);
+      expect(merged.text).toBe('Refactor the parser module please');
+      expect(queue.utterances).toHaveLength(1);
+    });
+
+    it('should refuse to merge across other utterances', () => {
+      const first = queue.add('One', new Date('2024-01-01T10:00:00Z'));
+      queue.add('Two', new Date('2024-01-01T10:00:01Z'));
+      const third = queue.add('Three', new Date('2024-01-01T10:00:02Z'));
+
+      expect(() => queue.merge([first.id, third.id])).toThrow('Only consecutive utterances can be merged');
+      expect(queue.utterances).toHaveLength(3);
+    });
+
+    it('should refuse to merge delivered utterances or a single utterance', () => {
+      const first = queue.add('One', new Date('2024-01-01T10:00:00Z'));
+      const second = queue.add('Two', new Date('2024-01-01T10:00:01Z'));
+      queue.markDelivered(second.id);
+
+      expect(() => queue.merge([first.id, second.id])).toThrow(expect.objectContaining({ code: 'not-pending' }));
+      expect(() => queue.merge([first.id, first.id])).toThrow(expect.objectContaining({ code: 'invalid' }));
+    });
+  });
+
+  describe('coalescing', () => {
+    it('should append utterances arriving within the window to the previous one', () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 1500 });
+      const first = coalescing.add('Refactor the', new Date('2024-01-01T10:00:00.000Z'));
+      const second = coalescing.add('parser module', new Date('2024-01-01T10:00:01.000Z'));
+      coalescing.add('please', new Date('2024-01-01T10:00:02.000Z'));
+      coalescing.add('Also run the tests', new Date('2024-01-01T10:00:05.000Z'));
+
+      expect(second.id).toBe(first.id);
+      expect(coalescing.utterances.map(u => u.text)).toEqual([
+        'Refactor the parser module please',
+        'Also run the tests'
+      ]);
+    });
+
+    it('should start a new utterance once the previous one was delivered', () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 1500 });
+      const first = coalescing.add('First');
+      coalescing.markDelivered(first.id);
+      coalescing.add('Second');
+
+      expect(coalescing.utterances.map(u => u.text)).toEqual(['First', 'Second']);
+    });
+
+    it('should only coalesce utterances of the same urgency', () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 1500 });
+      coalescing.add('Refactor the parser', new Date('2024-01-01T10:00:00.000Z'));
+      coalescing.add('Stop, use the old one', new Date('2024-01-01T10:00:01.000Z'), { urgent: true });
+      coalescing.add('right now', new Date('2024-01-01T10:00:02.000Z'), { urgent: true });
+      coalescing.add('and update the docs', new Date('2024-01-01T10:00:03.000Z'));
+
+      expect(coalescing.utterances.map(u => [u.text, u.urgent])).toEqual([
+        ['Refactor the parser', undefined],
+        ['Stop, use the old one right now', true],
+        ['and update the docs', undefined]
+      ]);
+    });
+
+    it('should add moved utterances as they are', () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 1500 });
+      coalescing.add('Use the staging database', new Date('2024-01-01T10:00:00.000Z'), { coalesce: false });
+      coalescing.add('Stop editing tests', new Date('2024-01-01T10:00:01.000Z'), { urgent: true, coalesce: false });
+      coalescing.add('and run lint', new Date('2024-01-01T10:00:01.500Z'));
+
+      expect(coalescing.utterances.map(u => [u.text, u.urgent])).toEqual([
+        ['Use the staging database', undefined],
+        ['Stop editing tests', true],
+        ['and run lint', undefined]
+      ]);
+    });
+
+    it('should start a new utterance once the window is ended', () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 1500 });
+      coalescing.add('Refactor the parser', new Date('2024-01-01T10:00:00.000Z'));
+      coalescing.endCoalescing();
+      coalescing.add('Yes', new Date('2024-01-01T10:00:00.500Z'));
+
+      expect(coalescing.utterances.map(u => u.text)).toEqual(['Refactor the parser', 'Yes']);
+      expect(coalescing.isCoalescing()).toBe(false);
+    });
+
+    it('should not coalesce by default', () => {
+      queue.add('First');
+      queue.add('Second');
+
+      expect(queue.utterances).toHaveLength(2);
+      expect(queue.isCoalescing()).toBe(false);
+    });
+
+    it('should wait until the window closes', async () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 100 });
+      coalescing.add('Hello');
+      expect(coalescing.isCoalescing()).toBe(true);
+
+      const start = Date.now();
+      await coalescing.waitForCoalescing(5000);
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(80);
+      expect(coalescing.isCoalescing()).toBe(false);
+    });
+
+    it('should stop waiting at the bound or on abort', async () => {
+      const coalescing = new InMemoryUtteranceQueue(undefined, { coalesceMs: 10000 });
+      coalescing.add('Hello');
+
+      const start = Date.now();
+      await coalescing.waitForCoalescing(50);
+      expect(Date.now() - start).toBeLessThan(1000);
+
+      const controller = new AbortController();
+      const waiting = coalescing.waitForCoalescing(10000, controller.signal);
+      controller.abort();
+      await waiting;
+      expect(coalescing.isCoalescing()).toBe(true);
+    });
+  });
+
+  describe('recordResponse', () => {
+    it('should link the response to the utterances it answers and mark them responded', () => {
+      const first = queue.add('What time is it?');
+      const second = queue.add('And the date?');
+      queue.markDelivered(first.id);
+      queue.markDelivered(second.id);
+
+      const response = queue.recordResponse('  It is noon on Monday.  ', [first.id, second.id]);
+
+      expect(response.text).toBe('It is noon on Monday.');
+      expect(response.utteranceIds).toEqual([first.id, second.id]);
+      expect(queue.responses).toEqual([response]);
+      expect(queue.utterances.every(u => u.status === 'responded')).toBe(true);
+    });
+  });
+
+  describe('getConversation', () => {
+    it('should interleave utterances and responses in time order', () => {
+      const question = queue.add('Run the tests', new Date(Date.now() - 2000));
+      queue.markDelivered(question.id);
+      queue.recordResponse('All tests pass', [question.id]);
+      queue.add('Thanks', new Date(Date.now() + 1000));
+
+      expect(queue.getConversation().map(entry => `${entry.role}: ${entry.text}`)).toEqual([
+        'user: Run the tests',
+        'assistant: All tests pass',
+        'user: Thanks'
+      ]);
+      expect(queue.getConversation(1).map(entry => entry.text)).toEqual(['Thanks']);
+    });
+  });
+
+  describe('getStatusCounts', () => {
+    it('should track counts through every change', () => {
+      const first = queue.add('First');
+      const second = queue.add('Second');
+      queue.add('Third');
+      queue.markDelivered(first.id);
+      queue.recordResponse('Done', [first.id]);
+      queue.markDelivered(second.id);
+      queue.removeLastPending();
+
+      expect(queue.getStatusCounts()).toEqual({ total: 2, pending: 0, delivered: 1, responded: 1 });
+
+      queue.clear();
+      expect(queue.getStatusCounts()).toEqual({ total: 0, pending: 0, delivered: 0, responded: 0 });
+    });
+  });
+
+  describe('prune', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    function answered(target: InMemoryUtteranceQueue, text: string, timestamp: Date) {
+      const utterance = target.add(text, timestamp);
+      target.markDelivered(utterance.id);
+      target.recordResponse(`Re: ${text}`, [utterance.id]);
+      return utterance;
+    }
+
+    it('should keep only the newest answered utterances and their responses', () => {
+      const limited = new InMemoryUtteranceQueue(undefined, { retention: { maxEntries: 2 } });
+      answered(limited, 'One', hoursAgo(3));
+      answered(limited, 'Two', hoursAgo(2));
+      answered(limited, 'Three', hoursAgo(1));
+      limited.add('Pending', hoursAgo(4));
+
+      const pruned = limited.prune();
+
+      expect(pruned.map(u => u.text)).toEqual(['One']);
+      expect(limited.utterances.map(u => u.text)).toEqual(['Two', 'Three', 'Pending']);
+      expect(limited.responses.map(r => r.text)).toEqual(['Re: Two', 'Re: Three']);
+      expect(limited.getStatusCounts()).toEqual({ total: 3, pending: 1, delivered: 0, responded: 2 });
+    });
+
+    it('should drop answered utterances past the maximum age but never unanswered ones', () => {
+      const limited = new InMemoryUtteranceQueue(undefined, { retention: { maxAgeMs: 60 * 60 * 1000 } });
+      answered(limited, 'Old', hoursAgo(2));
+      const waiting = limited.add('Old but delivered', hoursAgo(3));
+      limited.markDelivered(waiting.id);
+      answered(limited, 'Recent', new Date());
+
+      limited.prune();
+
+      expect(limited.utterances.map(u => u.text)).toEqual(['Old but delivered', 'Recent']);
+    });
+
+    it('should drop everything answered when keeping only unresponded utterances', () => {
+      const limited = new InMemoryUtteranceQueue(undefined, { retention: { keepOnlyUnresponded: true } });
+      answered(limited, 'Answered', new Date());
+      limited.recordResponse('Unprompted status update', []);
+      limited.add('Waiting');
+
+      limited.prune();
+
+      expect(limited.utterances.map(u => u.text)).toEqual(['Waiting']);
+      expect(limited.responses).toEqual([]);
+    });
+
+    it('should do nothing without retention limits', () => {
+      answered(queue, 'Kept', hoursAgo(1000));
+
+      expect(queue.prune()).toEqual([]);
+      expect(queue.utterances).toHaveLength(1);
+    });
+  });
+
+  describe('clearPending', () => {
+    it('should remove only pending utterances', () => {
+      queue.add('First');
+      const delivered = queue.add('Second');
+      queue.add('Third');
+      queue.markDelivered(delivered.id);
+
+      const cleared = queue.clearPending();
+
+      expect(cleared.map(u => u.text)).toEqual(['First', 'Third']);
+      expect(queue.utterances.map(u => u.text)).toEqual(['Second']);
+    });
+  });
+
   describe('clear', () => {
     it('should remove all utterances from the queue', () => {
       queue.add('First');
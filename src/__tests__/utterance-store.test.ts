@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonlUtteranceStore } from '../utterance-store';
+import { InMemoryUtteranceQueue } from '../utterance-queue';
+
+describe('JsonlUtteranceStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-hooks-store-'));
+    filePath = path.join(tempDir, 'nested', 'utterances.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when no file exists', () => {
+    const store = new JsonlUtteranceStore(filePath);
+
+    expect(store.load()).toEqual([]);
+  });
+
+  it('should restore utterances and their status after a restart', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    const u1 = queue.add('First');
+    const u2 = queue.add('Second');
+    const u3 = queue.add('Third');
+    queue.markDelivered(u2.id);
+    queue.markDelivered(u3.id);
+    queue.markResponded(u3.id);
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances).toHaveLength(3);
+    expect(restored.utterances.find(u => u.id === u1.id)?.status).toBe('pending');
+    expect(restored.utterances.find(u => u.id === u2.id)?.status).toBe('delivered');
+    expect(restored.utterances.find(u => u.id === u3.id)?.status).toBe('responded');
+    expect(restored.utterances[0].timestamp).toBeInstanceOf(Date);
+    expect(restored.utterances[0].timestamp.getTime()).toBe(u1.timestamp.getTime());
+  });
+
+  it('should restore the urgent flag', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    queue.add('Use the staging database', undefined, { urgent: true });
+    queue.add('Thanks');
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances.map(u => u.urgent)).toEqual([true, undefined]);
+  });
+
+  it('should restore recorded responses', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    const question = queue.add('What changed?');
+    queue.markDelivered(question.id);
+    const response = queue.recordResponse('I renamed the config loader', [question.id]);
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.responses).toEqual([response]);
+    expect(restored.responses[0].timestamp).toBeInstanceOf(Date);
+    expect(restored.utterances[0].status).toBe('responded');
+  });
+
+  it('should persist pruning', () => {
+    const options = { retention: { keepOnlyUnresponded: true } };
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath), options);
+    const answered = queue.add('Answered');
+    queue.markDelivered(answered.id);
+    queue.recordResponse('Done', [answered.id]);
+    queue.add('Waiting');
+    queue.prune();
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath), options);
+
+    expect(restored.utterances.map(u => u.text)).toEqual(['Waiting']);
+    expect(restored.responses).toEqual([]);
+    expect(restored.getStatusCounts()).toEqual({ total: 1, pending: 1, delivered: 0, responded: 0 });
+  });
+
+  it('should persist clear', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    queue.add('First');
+    queue.clear();
+    queue.add('After clear');
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances.map(u => u.text)).toEqual(['After clear']);
+  });
+
+  it('should persist removals', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    const first = queue.add('First');
+    queue.add('Second');
+    queue.remove(first.id);
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances.map(u => u.text)).toEqual(['Second']);
+  });
+
+  it('should persist edits and merges', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    const first = queue.add('Fix the', new Date(Date.now() - 1000));
+    const second = queue.add('bug');
+    queue.updateText(second.id, 'parser bug');
+    queue.merge([first.id, second.id]);
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances.map(u => u.text)).toEqual(['Fix the parser bug']);
+  });
+
+  it('should skip malformed lines', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    queue.add('Valid');
+    fs.appendFileSync(filePath, '{not json\n');
+
+    const restored = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+
+    expect(restored.utterances.map(u => u.text)).toEqual(['Valid']);
+  });
+
+  it('should drop answered utterances older than the retention age on load', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    const old = queue.add('Old', new Date(Date.now() - 2 * 60 * 60 * 1000));
+    queue.markResponded(old.id);
+    queue.add('Recent');
+
+    const store = new JsonlUtteranceStore(filePath, { maxAgeMs: 60 * 60 * 1000 });
+
+    expect(store.load().map(u => u.text)).toEqual(['Recent']);
+  });
+
+  it('should keep unanswered utterances however old they are', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath));
+    queue.add('Stale pending', new Date(Date.now() - 2 * 60 * 60 * 1000));
+    const delivered = queue.add('Stale delivered', new Date(Date.now() - 2 * 60 * 60 * 1000));
+    queue.markDelivered(delivered.id);
+
+    const store = new JsonlUtteranceStore(filePath, { maxAgeMs: 60 * 60 * 1000, maxEntries: 1 });
+
+    expect(store.load().map(u => [u.text, u.status])).toEqual([
+      ['Stale pending', 'pending'],
+      ['Stale delivered', 'delivered']
+    ]);
+  });
+
+  it('should keep only the newest entries and compact the file', () => {
+    const queue = new InMemoryUtteranceQueue(new JsonlUtteranceStore(filePath, { maxEntries: 3 }));
+    for (let i = 1; i <= 10; i++) {
+      const utterance = queue.add(`Utterance ${i}`, new Date(Date.now() - 60000 + i * 1000));
+      queue.markResponded(utterance.id);
+    }
+
+    // Log is compacted once it grows past twice the entry limit
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThan(20);
+
+    const restored = new JsonlUtteranceStore(filePath, { maxEntries: 3 }).load();
+    expect(restored.map(u => u.text)).toEqual(['Utterance 8', 'Utterance 9', 'Utterance 10']);
+    expect(restored.every(u => u.status === 'responded')).toBe(true);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VoiceCommandMatcher } from '../voice-commands';
+
+describe('VoiceCommandMatcher', () => {
+  const matcher = VoiceCommandMatcher.load();
+
+  it.each([
+    ['scratch that', 'scratch'],
+    ['Hold on!', 'interrupt'],
+    ['  Stop. ', 'interrupt'],
+    ['Never mind', 'clear'],
+    ['Repeat that?', 'repeat']
+  ])('should recognise "%s" as %s', (text, command) => {
+    expect(matcher.match(text, 'en-US')).toBe(command);
+  });
+
+  it('should only match whole utterances', () => {
+    expect(matcher.match('stop using tabs', 'en-US')).toBeUndefined();
+    expect(matcher.match('please scratch that idea and use a map', 'en-US')).toBeUndefined();
+  });
+
+  it('should use the phrases of the recognition language', () => {
+    expect(matcher.match('잠깐만', 'ko-KR')).toBe('interrupt');
+    expect(matcher.match('stop', 'ko-KR')).toBeUndefined();
+  });
+
+  it('should check every language when none is given', () => {
+    expect(matcher.match('잠깐만')).toBe('interrupt');
+    expect(matcher.match('never mind')).toBe('clear');
+  });
+
+  describe('matchUrgentPrefix', () => {
+    it.each([
+      ['urgent: use the staging database', 'use the staging database'],
+      ['Urgent, stop editing the tests', 'stop editing the tests'],
+      ['urgent revert that change', 'revert that change'],
+      ['긴급 테스트 멈춰', '테스트 멈춰']
+    ])('should strip the prefix from "%s"', (text, rest) => {
+      expect(matcher.matchUrgentPrefix(text)).toBe(rest);
+    });
+
+    it('should leave other utterances alone', () => {
+      expect(matcher.matchUrgentPrefix('urgently needed fix', 'en-US')).toBeUndefined();
+      expect(matcher.matchUrgentPrefix('urgent', 'en-US')).toBeUndefined();
+      expect(matcher.matchUrgentPrefix('this is urgent: fix it', 'en-US')).toBeUndefined();
+      expect(matcher.matchUrgentPrefix('긴급 테스트 멈춰', 'en-US')).toBeUndefined();
+    });
+  });
+
+  describe('interpret', () => {
+    it('should return commands, or text to queue without the urgent prefix', () => {
+      expect(matcher.interpret('stop', { language: 'en-US' })).toEqual({ command: 'interrupt' });
+      expect(matcher.interpret('urgent: use tabs', { language: 'en-US' })).toEqual({ text: 'use tabs', urgent: true });
+      expect(matcher.interpret('use tabs')).toEqual({ text: 'use tabs', urgent: false });
+    });
+
+    it('should pass command phrases through as answers while a question is open', () => {
+      // "stop" denies a confirm_action prompt, "never mind" answers an ask_user question
+      expect(matcher.interpret('Stop.', { language: 'en-US', answering: true })).toEqual({ text: 'Stop.', urgent: false });
+      expect(matcher.interpret('never mind', { answering: true })).toEqual({ text: 'never mind', urgent: false });
+    });
+  });
+
+  describe('load', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-commands-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function writePhrases(content: unknown): string {
+      const filePath = path.join(tmpDir, 'commands.json');
+      fs.writeFileSync(filePath, JSON.stringify(content));
+      return filePath;
+    }
+
+    it('should add languages and override commands from a file', () => {
+      const custom = VoiceCommandMatcher.load(writePhrases({
+        de: { scratch: ['streich das'] },
+        en: { interrupt: ['freeze'] }
+      }));
+
+      expect(custom.match('Streich das', 'de-DE')).toBe('scratch');
+      expect(custom.match('freeze', 'en-US')).toBe('interrupt');
+      expect(custom.match('stop', 'en-US')).toBeUndefined();
+      expect(custom.match('scratch that', 'en-US')).toBe('scratch');
+    });
+
+    it.each([
+      [[], 'must be an object keyed by language'],
+      [{ en: { explode: ['boom'] } }, 'Unknown voice command "explode"'],
+      [{ en: { scratch: 'scratch that' } }, 'must be an array of strings']
+    ])('should reject %j', (content, message) => {
+      expect(() => VoiceCommandMatcher.load(writePhrases(content))).toThrow(message);
+    });
+  });
+});
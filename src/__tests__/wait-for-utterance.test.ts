@@ -179,4 +179,78 @@ describe('wait_for_utterance behavior', () => {
       expect(queue.utterances.every(u => u.status === 'delivered')).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('waitForPending', () => {
+    it('should resolve immediately when utterances are already pending', async () => {
+      queue.add('Already here');
+
+      await expect(queue.waitForPending(1000)).resolves.toBe(true);
+    });
+
+    it('should resolve on the next added utterance without polling', async () => {
+      const waiting = queue.waitForPending(5000);
+      setTimeout(() => queue.add('Arrived later'), 20);
+
+      await expect(waiting).resolves.toBe(true);
+      expect(queue.listenerCount('added')).toBe(0);
+    });
+
+    it('should resolve false on timeout', async () => {
+      await expect(queue.waitForPending(20)).resolves.toBe(false);
+      expect(queue.listenerCount('added')).toBe(0);
+    });
+
+    it('should ignore already delivered utterances', async () => {
+      const u1 = queue.add('Delivered');
+      queue.markDelivered(u1.id);
+
+      await expect(queue.waitForPending(20)).resolves.toBe(false);
+    });
+
+    it('should resolve false when aborted', async () => {
+      const controller = new AbortController();
+      const waiting = queue.waitForPending(5000, controller.signal);
+      controller.abort();
+
+      await expect(waiting).resolves.toBe(false);
+      expect(queue.listenerCount('added')).toBe(0);
+    });
+
+    it('should wake every concurrent waiter with a single add', async () => {
+      const waiters = [queue.waitForPending(5000), queue.waitForPending(5000), queue.waitForPending(5000)];
+      queue.add('Shared');
+
+      await expect(Promise.all(waiters)).resolves.toEqual([true, true, true]);
+    });
+  });
+
+  describe('waitForAdded', () => {
+    it('should wait past utterances that were already pending', async () => {
+      queue.add('Already here');
+
+      await expect(queue.waitForAdded(20)).resolves.toBe(false);
+      const waiting = queue.waitForAdded(5000);
+      setTimeout(() => queue.add('Arrived later'), 20);
+
+      await expect(waiting).resolves.toBe(true);
+      expect(queue.listenerCount('added')).toBe(0);
+    });
+  });
+
+  describe('queue events', () => {
+    it('should emit status changes and clears', () => {
+      const events: string[] = [];
+      queue.on('added', u => events.push(`added:${u.text}`));
+      queue.on('delivered', u => events.push(`delivered:${u.text}`));
+      queue.on('responded', u => events.push(`responded:${u.text}`));
+      queue.on('cleared', count => events.push(`cleared:${count}`));
+
+      const u1 = queue.add('Hello');
+      queue.markDelivered(u1.id);
+      queue.markResponded(u1.id);
+      queue.clear();
+
+      expect(events).toEqual(['added:Hello', 'delivered:Hello', 'responded:Hello', 'cleared:1']);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { encodeServerMessage, isReplayed, parseClientMessage, ProtocolError, PROTOCOL_VERSION } from '../ws-protocol';
+
+describe('parseClientMessage', () => {
+  it('should accept valid messages of every type', () => {
+    const messages = [
+      { v: PROTOCOL_VERSION, id: '1', type: 'utterance', text: 'hello', language: 'en-US', urgent: true },
+      { v: PROTOCOL_VERSION, type: 'voiceInputState', active: true },
+      { v: PROTOCOL_VERSION, type: 'voicePreferences', voiceResponsesEnabled: false },
+      { v: PROTOCOL_VERSION, type: 'audio-start', sampleRate: 48000 },
+      { v: PROTOCOL_VERSION, type: 'audio-stop' }
+    ];
+
+    messages.forEach(message => {
+      expect(parseClientMessage(JSON.stringify(message))).toEqual(message);
+    });
+  });
+
+  it('should reject other protocol versions', () => {
+    expect(() => parseClientMessage(JSON.stringify({ type: 'audio-stop' }))).toThrow('Unsupported protocol version undefined');
+    expect(() => parseClientMessage(JSON.stringify({ v: 2, type: 'audio-stop' }))).toThrow('expected 1');
+  });
+
+  it('should reject unknown types and mistyped fields, keeping the request id', () => {
+    const parse = (message: object) => {
+      try {
+        parseClientMessage(JSON.stringify({ v: PROTOCOL_VERSION, id: 'req-7', ...message }));
+      } catch (error) {
+        return error as ProtocolError;
+      }
+      throw new Error('Expected a ProtocolError');
+    };
+
+    expect(parse({ type: 'speak' }).message).toBe('Unknown message type "speak"');
+    expect(parse({ type: 'toString' }).message).toBe('Unknown message type "toString"');
+    expect(parse({ type: 'utterance' }).message).toBe('"text" must be a string in utterance messages');
+    expect(parse({ type: 'voiceInputState', active: 'yes' }).message).toBe('"active" must be a boolean in voiceInputState messages');
+    expect(parse({ type: 'speak' }).id).toBe('req-7');
+  });
+
+  it('should reject frames that are not JSON objects', () => {
+    expect(() => parseClientMessage('not json')).toThrow(ProtocolError);
+    expect(() => parseClientMessage('[1, 2]')).toThrow('Message must be a JSON object');
+  });
+});
+
+describe('encodeServerMessage', () => {
+  it('should stamp messages with the protocol version', () => {
+    expect(JSON.parse(encodeServerMessage({ type: 'waitStatus', isWaiting: true, sessionId: 'default' }))).toEqual({
+      v: PROTOCOL_VERSION,
+      type: 'waitStatus',
+      isWaiting: true,
+      sessionId: 'default'
+    });
+  });
+});
+
+describe('isReplayed', () => {
+  it('should keep responses and queue changes but not superseded state', () => {
+    expect(isReplayed({ type: 'speak', text: 'Done', sessionId: 's', sessionName: 'S' })).toBe(true);
+    expect(isReplayed({ type: 'questionEnded', id: 'q', sessionId: 's' })).toBe(true);
+    expect(isReplayed({ type: 'waitStatus', isWaiting: false, sessionId: 's' })).toBe(false);
+    expect(isReplayed({ type: 'status', text: 'Running tests', speak: false, sessionId: 's' })).toBe(false);
+    expect(isReplayed({ type: 'sessionUpdate', session: {} })).toBe(false);
+  });
+});
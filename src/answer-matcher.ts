@@ -0,0 +1,103 @@
+const CARDINALS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+type Decision = 'approve' | 'deny';
+
+// Spoken approvals and refusals; every language is checked, since a reply may not be in the recognition language
+const CONFIRMATION_PHRASES: Record<string, Record<Decision, string[]>> = {
+  en: {
+    approve: ['yes', 'yeah', 'yep', 'sure', 'allow', 'approve', 'approved', 'confirm', 'go ahead', 'do it'],
+    deny: ['no', 'nope', 'deny', 'denied', 'cancel', 'stop', 'abort', 'reject', "don't", 'do not']
+  },
+  ko: {
+    approve: ['네', '예', '응', '좋아', '승인', '허용', '진행해'],
+    deny: ['아니', '아니요', '아니오', '취소', '거부', '하지 마']
+  },
+  de: {
+    approve: ['ja', 'genau', 'bestätigen', 'erlauben', 'mach das'],
+    deny: ['nein', 'abbrechen', 'ablehnen']
+  },
+  es: {
+    approve: ['sí', 'vale', 'aprobar', 'permitir', 'adelante'],
+    deny: ['cancelar', 'rechazar']
+  },
+  fr: {
+    approve: ['oui', "d'accord", 'approuver', 'autoriser', 'vas-y'],
+    deny: ['non', 'annuler', 'refuser']
+  },
+  ja: {
+    approve: ['はい', 'うん', '承認', '許可', 'お願いします'],
+    deny: ['いいえ', 'ううん', 'キャンセル', 'だめ', 'やめて']
+  }
+};
+
+// Lowercase words without the punctuation speech recognition tends to add
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:"'`()、。！？]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function containsPhrase(haystack: string[], needle: string[]): boolean {
+  return needle.length > 0 && haystack.some((_, start) => needle.every((word, i) => haystack[start + i] === word));
+}
+
+/**
+ * Maps a spoken answer onto one of the offered choices. Tries, in order: the choice itself,
+ * a choice mentioned in the answer ("let's go with Postgres"), a number or ordinal ("two",
+ * "the second one", "option 3"), and an answer naming part of a choice ("staging" for
+ * "Deploy to staging"). Ambiguous answers match nothing.
+ * @param answer - What the user said
+ * @param choices - The choices offered with the question
+ * @returns The matching choice, or undefined if none matches unambiguously
+ */
+export function matchChoice(answer: string, choices: string[]): string | undefined {
+  const spoken = words(answer);
+  const options = choices.map(words);
+  if (spoken.length === 0) {
+    return undefined;
+  }
+
+  const exact = options.findIndex(option => option.join(' ') === spoken.join(' '));
+  if (exact !== -1) {
+    return choices[exact];
+  }
+
+  const unique = (predicate: (option: string[]) => boolean) => {
+    const matches = options.map((option, index) => predicate(option) ? index : -1).filter(index => index !== -1);
+    return matches.length === 1 ? choices[matches[0]] : undefined;
+  };
+  const mentioned = unique(option => containsPhrase(spoken, option));
+  if (mentioned) {
+    return mentioned;
+  }
+
+  // "The second one" is the second choice, so ordinals take precedence over cardinals
+  const ordinals = spoken.map(word => ORDINALS.indexOf(word) + 1).filter(n => n >= 1 && n <= choices.length);
+  const cardinals = spoken
+    .map(word => /^\d+$/.test(word) ? parseInt(word) : CARDINALS.indexOf(word) + 1)
+    .filter(n => n >= 1 && n <= choices.length);
+  const numbers = ordinals.length > 0 ? ordinals : cardinals;
+  if (numbers.length === 1) {
+    return choices[numbers[0] - 1];
+  }
+
+  return unique(option => containsPhrase(option, spoken));
+}
+
+/**
+ * Reads a spoken reply to a yes/no confirmation, in any of the built-in languages
+ * @param answer - What the user said, e.g. "yes, go ahead" or "nein"
+ * @returns The decision, or undefined if the reply says neither or both
+ */
+export function matchConfirmation(answer: string): Decision | undefined {
+  const spoken = words(answer);
+  const says = (decision: Decision) => Object.values(CONFIRMATION_PHRASES)
+    .some(phrases => phrases[decision].some(phrase => containsPhrase(spoken, words(phrase))));
+
+  const approve = says('approve');
+  const deny = says('deny');
+  return approve === deny ? undefined : approve ? 'approve' : 'deny';
+}
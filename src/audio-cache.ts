@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { commandExists } from './tts-engine.js';
+import type { TtsEngine } from './tts-engine.js';
+import { debugLog } from './debug.js';
+
+const execFileAsync = promisify(execFile);
+
+type AudioFormat = 'wav' | 'ogg';
+
+const CONTENT_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  ogg: 'audio/ogg'
+};
+
+interface AudioCacheOptions {
+  // OGG needs ffmpeg; without it the cache falls back to WAV
+  format?: AudioFormat;
+  // Oldest files beyond this count are deleted
+  maxEntries?: number;
+}
+
+/**
+ * Renders speak text to audio files with a server-side engine, keyed by a hash of the
+ * text and rendering settings so repeated phrases are synthesized once
+ */
+export class AudioCache {
+  private dir: string;
+  private engine: TtsEngine;
+  private format: AudioFormat;
+  private maxEntries: number;
+  // Renders in progress, so concurrent requests for the same text share one synthesis
+  private rendering = new Map<string, Promise<string>>();
+
+  constructor(dir: string, engine: TtsEngine, options: AudioCacheOptions = {}) {
+    this.dir = dir;
+    this.engine = engine;
+    this.format = options.format === 'ogg' && commandExists('ffmpeg') ? 'ogg' : 'wav';
+    this.maxEntries = options.maxEntries ?? 200;
+  }
+
+  get available(): boolean {
+    return typeof this.engine.synthesize === 'function';
+  }
+
+  /**
+   * Synthesizes text unless it is already cached
+   * @param text - The text to speak
+   * @returns The content hash identifying the audio file
+   * @throws Error if the engine cannot synthesize or synthesis fails
+   */
+  async render(text: string): Promise<string> {
+    if (!this.engine.synthesize) {
+      throw new Error(`The ${this.engine.name} engine cannot render audio`);
+    }
+
+    const hash = createHash('sha256')
+      .update(`${this.engine.name}\n${this.format}\n${text}`)
+      .digest('hex')
+      .slice(0, 32);
+    const filePath = this.filePath(hash);
+    if (fs.existsSync(filePath)) {
+      // Touch so pruning keeps recently used phrases
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+      return hash;
+    }
+
+    let pending = this.rendering.get(hash);
+    if (!pending) {
+      pending = this.synthesize(text, filePath).finally(() => this.rendering.delete(hash));
+      this.rendering.set(hash, pending);
+    }
+    await pending;
+    return hash;
+  }
+
+  /**
+   * @param hash - Hash returned by render
+   * @returns The cached file and its content type, or undefined if unknown
+   */
+  resolve(hash: string): { filePath: string; contentType: string } | undefined {
+    if (!/^[a-f0-9]{32}$/.test(hash)) {
+      return undefined;
+    }
+    const filePath = this.filePath(hash);
+    return fs.existsSync(filePath) ? { filePath, contentType: CONTENT_TYPES[this.format] } : undefined;
+  }
+
+  private filePath(hash: string): string {
+    return path.join(this.dir, `${hash}.${this.format}`);
+  }
+
+  private async synthesize(text: string, filePath: string): Promise<string> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    // Render to a temporary name so a failed synthesis never leaves a partial file behind
+    const wavFile = `${filePath}.${process.pid}.tmp.wav`;
+    try {
+      await this.engine.synthesize!(text, wavFile);
+      if (this.format === 'ogg') {
+        await execFileAsync('ffmpeg', ['-y', '-loglevel', 'error', '-i', wavFile, '-c:a', 'libopus', '-f', 'ogg', `${filePath}.tmp`]);
+        fs.renameSync(`${filePath}.tmp`, filePath);
+      } else {
+        fs.renameSync(wavFile, filePath);
+      }
+    } finally {
+      fs.rmSync(wavFile, { force: true });
+      fs.rmSync(`${filePath}.tmp`, { force: true });
+    }
+
+    debugLog(`[Audio] Rendered ${path.basename(filePath)} with ${this.engine.name}: "${text}"`);
+    this.prune();
+    return filePath;
+  }
+
+  private prune(): void {
+    const files = fs.readdirSync(this.dir)
+      .filter(file => /^[a-f0-9]{32}\.(wav|ogg)$/.test(file))
+      .map(file => ({ file, mtime: fs.statSync(path.join(this.dir, file)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+
+    files.slice(this.maxEntries).forEach(({ file }) => {
+      fs.rmSync(path.join(this.dir, file), { force: true });
+    });
+  }
+}
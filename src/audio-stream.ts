@@ -0,0 +1,234 @@
+import { EventEmitter } from 'events';
+import type { SttEngine } from './stt-engine.js';
+import { debugLog } from './debug.js';
+
+interface AudioStreamOptions {
+  // Sample rate of the incoming 16-bit little-endian mono PCM
+  sampleRate?: number;
+  // Recognition language such as "en-US", passed to the engine
+  language?: string;
+  // RMS level (0-1) above which a frame counts as speech
+  threshold?: number;
+  // Silence that ends a segment
+  silenceMs?: number;
+  // Segments with less speech than this are dropped as clicks and noise
+  minSpeechMs?: number;
+  // How often an in-progress segment is transcribed for interim results (0 disables)
+  interimMs?: number;
+  // Long monologues are cut into segments of at most this length
+  maxSegmentMs?: number;
+}
+
+interface Transcript {
+  text: string;
+  final: boolean;
+}
+
+// VAD works on fixed windows regardless of how the client sizes its frames
+const WINDOW_MS = 20;
+// Audio kept from before speech starts so the first syllable isn't clipped
+const PRE_ROLL_MS = 200;
+// Sample rates browsers capture at; anything else is a broken or hostile client
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 48000;
+
+/**
+ * Wraps raw PCM in a WAV header so engines can read it
+ * @param pcm - 16-bit little-endian mono samples
+ * @param sampleRate - Samples per second
+ * @returns A complete WAV file
+ */
+function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+function rms(window: Buffer): number {
+  let sum = 0;
+  const samples = window.length / 2;
+  for (let i = 0; i < window.length; i += 2) {
+    const sample = window.readInt16LE(i) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Segments a live PCM stream into utterances with an energy-based voice activity
+ * detector and transcribes them. Emits 'transcript' with interim text while a segment
+ * is still being spoken and final text once it ends, and 'error' when recognition fails.
+ */
+export class AudioStream extends EventEmitter {
+  private engine: SttEngine;
+  private sampleRate: number;
+  private language?: string;
+  private threshold: number;
+  private silenceMs: number;
+  private minSpeechMs: number;
+  private interimMs: number;
+  private maxSegmentMs: number;
+  private windowBytes: number;
+
+  // Bytes not yet filling a whole VAD window
+  private remainder = Buffer.alloc(0);
+  private preRoll: Buffer[] = [];
+  private segment: Buffer[] = [];
+  private speaking = false;
+  private speechMs = 0;
+  private trailingSilenceMs = 0;
+  private lastInterimMs = 0;
+  // Identifies the current segment, so a late interim result for a finished one is dropped
+  private segmentNumber = 0;
+  private interimInFlight = false;
+  // Final transcriptions run one at a time so they are emitted in spoken order
+  private finals: Promise<void> = Promise.resolve();
+  private ended = false;
+
+  /**
+   * @param engine - Transcribes finished and in-progress segments
+   * @param options - Sample rate, language and VAD tuning
+   * @throws Error if the sample rate is outside 8000-48000 Hz
+   */
+  constructor(engine: SttEngine, options: AudioStreamOptions = {}) {
+    super();
+    this.engine = engine;
+    this.sampleRate = options.sampleRate ?? 16000;
+    if (!(this.sampleRate >= MIN_SAMPLE_RATE && this.sampleRate <= MAX_SAMPLE_RATE)) {
+      throw new Error(`Sample rate must be between ${MIN_SAMPLE_RATE} and ${MAX_SAMPLE_RATE} Hz, got ${options.sampleRate}`);
+    }
+    this.language = options.language;
+    this.threshold = options.threshold ?? 0.02;
+    this.silenceMs = options.silenceMs ?? 700;
+    this.minSpeechMs = options.minSpeechMs ?? 250;
+    this.interimMs = options.interimMs ?? 1000;
+    this.maxSegmentMs = options.maxSegmentMs ?? 30000;
+    this.windowBytes = Math.round(this.sampleRate * WINDOW_MS / 1000) * 2;
+  }
+
+  /**
+   * Feeds PCM frames of any size
+   * @param frame - 16-bit little-endian mono samples at the configured rate
+   */
+  write(frame: Buffer): void {
+    if (this.ended) {
+      return;
+    }
+
+    let data = this.remainder.length > 0 ? Buffer.concat([this.remainder, frame]) : frame;
+    while (data.length >= this.windowBytes) {
+      this.processWindow(data.subarray(0, this.windowBytes));
+      data = data.subarray(this.windowBytes);
+    }
+    this.remainder = Buffer.from(data);
+  }
+
+  /**
+   * Finishes the segment being spoken and waits for all final transcripts
+   */
+  async end(): Promise<void> {
+    if (!this.ended) {
+      this.ended = true;
+      if (this.speaking) {
+        this.finishSegment();
+      }
+    }
+    await this.finals;
+  }
+
+  private processWindow(window: Buffer): void {
+    const isSpeech = rms(window) >= this.threshold;
+
+    if (!this.speaking) {
+      if (!isSpeech) {
+        this.preRoll.push(window);
+        if (this.preRoll.length > PRE_ROLL_MS / WINDOW_MS) {
+          this.preRoll.shift();
+        }
+        return;
+      }
+      this.speaking = true;
+      this.segmentNumber++;
+      this.segment = this.preRoll;
+      this.preRoll = [];
+      this.speechMs = 0;
+      this.trailingSilenceMs = 0;
+      this.lastInterimMs = 0;
+    }
+
+    this.segment.push(window);
+    if (isSpeech) {
+      this.speechMs += WINDOW_MS;
+      this.trailingSilenceMs = 0;
+    } else {
+      this.trailingSilenceMs += WINDOW_MS;
+    }
+
+    if (this.trailingSilenceMs >= this.silenceMs || this.segment.length * WINDOW_MS >= this.maxSegmentMs) {
+      this.finishSegment();
+    } else if (this.interimMs > 0 && this.speechMs - this.lastInterimMs >= this.interimMs) {
+      this.lastInterimMs = this.speechMs;
+      this.transcribeInterim();
+    }
+  }
+
+  private finishSegment(): void {
+    const segment = Buffer.concat(this.segment);
+    const speechMs = this.speechMs;
+    this.speaking = false;
+    this.segment = [];
+
+    if (speechMs < this.minSpeechMs) {
+      debugLog(`[AudioStream] Dropped ${speechMs}ms of sound as noise`);
+      return;
+    }
+
+    this.finals = this.finals.then(async () => {
+      try {
+        const text = await this.transcribe(segment);
+        if (text) {
+          this.emit('transcript', { text, final: true } satisfies Transcript);
+        }
+      } catch (error) {
+        this.emit('error', error);
+      }
+    });
+  }
+
+  private transcribeInterim(): void {
+    // Skip rather than queue up; the next interim or the final result supersedes this one
+    if (this.interimInFlight) {
+      return;
+    }
+
+    const segmentNumber = this.segmentNumber;
+    this.interimInFlight = true;
+    this.transcribe(Buffer.concat(this.segment))
+      .then(text => {
+        if (text && this.speaking && segmentNumber === this.segmentNumber) {
+          this.emit('transcript', { text, final: false } satisfies Transcript);
+        }
+      })
+      .catch(error => debugLog(`[AudioStream] Interim transcription failed: ${error}`))
+      .finally(() => {
+        this.interimInFlight = false;
+      });
+  }
+
+  private async transcribe(pcm: Buffer): Promise<string> {
+    const text = await this.engine.transcribe(pcmToWav(pcm, this.sampleRate), 'audio/wav', { language: this.language });
+    return text.trim();
+  }
+}
@@ -0,0 +1,49 @@
+interface LoggedEvent<T> {
+  id: number;
+  event: T;
+}
+
+/**
+ * Numbers broadcast events and keeps the most recent ones, so a browser that
+ * reconnects can be sent what it missed
+ */
+export class EventLog<T> {
+  private capacity: number;
+  private events: LoggedEvent<T>[] = [];
+  private nextId: number;
+
+  /**
+   * @param capacity - How many recent events to keep
+   * @param firstId - Id of the first event. Starting from the boot time keeps ids from
+   * before a restart below every id issued after it.
+   */
+  constructor(capacity: number, firstId = 1) {
+    this.capacity = capacity;
+    this.nextId = firstId;
+  }
+
+  /**
+   * @param event - The event being broadcast
+   * @returns Its id
+   */
+  append(event: T): number {
+    const id = this.nextId++;
+    this.events.push({ id, event });
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+    return id;
+  }
+
+  /**
+   * Events a client has not seen yet
+   * @param lastEventId - Id of the last event the client received
+   * @returns Buffered events after it, or all of them for an id this log has not issued yet
+   */
+  since(lastEventId: number): LoggedEvent<T>[] {
+    if (!Number.isInteger(lastEventId) || lastEventId < 0 || lastEventId >= this.nextId) {
+      return [...this.events];
+    }
+    return this.events.filter(entry => entry.id > lastEventId);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * The JSON Claude Code sends to hook commands on stdin, in camelCase.
+ * Every field is optional because older hook installs post an empty body.
+ */
+export interface HookPayload {
+  sessionId?: string;
+  transcriptPath?: string;
+  cwd?: string;
+  hookEventName?: string;
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  // True when Claude is already continuing because a stop hook blocked it
+  stopHookActive: boolean;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Parses a hook request body into a typed payload
+ * @param body - The request body (parsed JSON object, raw JSON string, or nothing)
+ * @returns The payload; unknown or malformed fields are dropped
+ */
+export function parseHookPayload(body: unknown): HookPayload {
+  let raw: unknown = body;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      raw = undefined;
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { stopHookActive: false };
+  }
+
+  const fields = raw as Record<string, unknown>;
+  const toolInput = fields.tool_input;
+
+  return {
+    sessionId: optionalString(fields.session_id),
+    transcriptPath: optionalString(fields.transcript_path),
+    cwd: optionalString(fields.cwd),
+    hookEventName: optionalString(fields.hook_event_name),
+    toolName: optionalString(fields.tool_name),
+    toolInput: toolInput && typeof toolInput === 'object' && !Array.isArray(toolInput)
+      ? toolInput as Record<string, unknown>
+      : undefined,
+    stopHookActive: fields.stop_hook_active === true
+  };
+}
+
+// Tool input fields that say what a call does, most telling first
+const SUMMARY_FIELDS = ['command', 'file_path', 'notebook_path', 'url', 'path', 'pattern', 'query', 'description'];
+const MAX_SUMMARY_LENGTH = 120;
+
+/**
+ * One line saying what a tool call will do, for reading out in permission prompts
+ * @param payload - The PreToolUse payload
+ * @returns e.g. the command for Bash or the file path for Edit; empty if the input has no text
+ */
+export function describeToolInput(payload: HookPayload): string {
+  const input = payload.toolInput ?? {};
+  const field = SUMMARY_FIELDS.find(name => typeof input[name] === 'string' && input[name])
+    ?? Object.keys(input).find(name => typeof input[name] === 'string' && input[name]);
+  if (!field) {
+    return '';
+  }
+
+  const text = (input[field] as string).replace(/\s+/g, ' ').trim();
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : text;
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import { matchesToolPattern } from './tool-matcher.js';
+
+export type HookAction = 'tool' | 'speak' | 'wait' | 'stop' | 'post-tool';
+
+const HOOK_ACTIONS: HookAction[] = ['tool', 'speak', 'wait', 'stop', 'post-tool'];
+
+/**
+ * What the hook handler does once a rule matches:
+ * - approve: let the action proceed
+ * - block: block with the rule's reason
+ * - interrupt: block because the user said "stop", clearing the request
+ * - deliver: dequeue pending utterances and block with them
+ * - request-dequeue: block, asking Claude to call dequeue_utterances
+ * - require-speak: block until delivered utterances get a spoken response
+ * - speak-after-tools: block until Claude speaks about the tools it used
+ * - wait: wait for voice input, blocking with it if any arrives
+ * - request-wait: block, asking Claude to call wait_for_utterance
+ */
+type PolicyEffect =
+  | 'approve'
+  | 'block'
+  | 'interrupt'
+  | 'deliver'
+  | 'request-dequeue'
+  | 'require-speak'
+  | 'speak-after-tools'
+  | 'wait'
+  | 'request-wait';
+
+const POLICY_EFFECTS: PolicyEffect[] = [
+  'approve', 'block', 'interrupt', 'deliver', 'request-dequeue', 'require-speak', 'speak-after-tools', 'wait', 'request-wait'
+];
+
+// All conditions of a rule must hold for it to match. Omitted conditions always hold.
+interface PolicyConditions {
+  action?: HookAction | HookAction[];
+  // Regular expression matched against the whole tool name, e.g. "Read|Grep" or "mcp__github__.*"
+  tool?: string;
+  // Regular expression matched against the project directory of the session
+  project?: string;
+  hasPending?: boolean;
+  // True when a pending utterance was marked urgent
+  hasUrgent?: boolean;
+  hasDelivered?: boolean;
+  voiceResponsesEnabled?: boolean;
+  voiceInputActive?: boolean;
+  autoDeliver?: boolean;
+  // True when the tool matches the configured auto-deliver tool patterns
+  autoDeliverBeforeTools?: boolean;
+  // False when tools were used since Claude last spoke
+  spokeAfterTools?: boolean;
+  // True when Claude already got the speak-after-tools reminder during this stop-hook continuation
+  speakReminderIgnored?: boolean;
+  stopHookActive?: boolean;
+  // True after the user said "stop" or "hold on"
+  interruptRequested?: boolean;
+  minToolsSinceSpeak?: number;
+  minSecondsSinceSpeak?: number;
+}
+
+interface PolicyRule {
+  name?: string;
+  when?: PolicyConditions;
+  then: PolicyEffect;
+  // Replaces the default message of blocking effects
+  reason?: string;
+}
+
+export interface HookPolicy {
+  name: string;
+  rules: PolicyRule[];
+}
+
+// Snapshot of everything a rule can look at
+interface PolicyState {
+  action: HookAction;
+  toolName?: string;
+  projectPath?: string;
+  hasPending: boolean;
+  hasUrgent: boolean;
+  hasDelivered: boolean;
+  voiceResponsesEnabled: boolean;
+  voiceInputActive: boolean;
+  autoDeliver: boolean;
+  autoDeliverBeforeTools: boolean;
+  spokeAfterTools: boolean;
+  speakReminderIgnored: boolean;
+  stopHookActive: boolean;
+  interruptRequested: boolean;
+  toolsSinceSpeak: number;
+  secondsSinceSpeak: number;
+}
+
+// The built-in behavior, expressed as rules
+export const DEFAULT_POLICY: HookPolicy = {
+  name: 'default',
+  rules: [
+    { name: 'interrupt', when: { action: 'tool', interruptRequested: true }, then: 'interrupt' },
+    { name: 'manual-dequeue', when: { hasPending: true, autoDeliver: false }, then: 'request-dequeue' },
+    { name: 'deliver-urgent', when: { hasUrgent: true, action: 'tool' }, then: 'deliver' },
+    { name: 'deliver-pending', when: { hasPending: true, action: ['speak', 'wait', 'stop', 'post-tool'] }, then: 'deliver' },
+    { name: 'deliver-before-tools', when: { hasPending: true, action: 'tool', autoDeliverBeforeTools: true }, then: 'deliver' },
+    { name: 'speak-to-delivered', when: { hasDelivered: true, voiceResponsesEnabled: true, action: 'speak' }, then: 'approve' },
+    { name: 'respond-to-delivered', when: { hasDelivered: true, voiceResponsesEnabled: true }, then: 'require-speak' },
+    { name: 'allow-tools', when: { action: ['tool', 'post-tool'] }, then: 'approve' },
+    {
+      name: 'speak-before-waiting',
+      when: { action: 'wait', voiceResponsesEnabled: true, spokeAfterTools: false },
+      then: 'speak-after-tools',
+      reason: 'Assistant must speak after using tools. Please use the speak tool to respond before waiting for utterances.'
+    },
+    { name: 'allow-wait-and-speak', when: { action: ['wait', 'speak'] }, then: 'approve' },
+    {
+      name: 'speak-before-stopping',
+      when: { action: 'stop', voiceResponsesEnabled: true, spokeAfterTools: false, speakReminderIgnored: false },
+      then: 'speak-after-tools'
+    },
+    { name: 'auto-wait-on-stop', when: { action: 'stop', autoDeliver: true }, then: 'wait' },
+    { name: 'manual-wait-on-stop', when: { action: 'stop' }, then: 'request-wait' },
+    { name: 'fallback', then: 'approve' }
+  ]
+};
+
+function ruleMatches(conditions: PolicyConditions, state: PolicyState): boolean {
+  const booleanConditions = [
+    'hasPending', 'hasUrgent', 'hasDelivered', 'voiceResponsesEnabled', 'voiceInputActive', 'autoDeliver',
+    'autoDeliverBeforeTools', 'spokeAfterTools', 'speakReminderIgnored', 'stopHookActive',
+    'interruptRequested'
+  ] as const;
+
+  if (conditions.action !== undefined) {
+    const actions = Array.isArray(conditions.action) ? conditions.action : [conditions.action];
+    if (!actions.includes(state.action)) return false;
+  }
+  if (conditions.tool !== undefined && !(state.toolName && matchesToolPattern(conditions.tool, state.toolName))) return false;
+  if (conditions.project !== undefined && !(state.projectPath && new RegExp(conditions.project).test(state.projectPath))) return false;
+  for (const key of booleanConditions) {
+    if (conditions[key] !== undefined && conditions[key] !== state[key]) return false;
+  }
+  if (conditions.minToolsSinceSpeak !== undefined && state.toolsSinceSpeak < conditions.minToolsSinceSpeak) return false;
+  if (conditions.minSecondsSinceSpeak !== undefined && state.secondsSinceSpeak < conditions.minSecondsSinceSpeak) return false;
+
+  return true;
+}
+
+/**
+ * Finds the first rule matching the current state
+ * @param policy - The active policy
+ * @param state - Snapshot of the hook request, queue and preferences
+ * @returns The matching rule, or an implicit approve rule if none match
+ */
+export function evaluatePolicy(policy: HookPolicy, state: PolicyState): PolicyRule {
+  return policy.rules.find(rule => ruleMatches(rule.when ?? {}, state)) ?? { name: 'implicit-approve', then: 'approve' };
+}
+
+/**
+ * Whether an approved hook counts toward toolsSinceSpeak. Every tool call passes through both
+ * the pre-tool and the post-tool hook; only the pre-tool hook counts, so each call counts once.
+ * @param action - The hook being approved
+ * @returns True if it starts a tool call
+ */
+export function countsAsToolUse(action: HookAction): boolean {
+  return action === 'tool';
+}
+
+/**
+ * Checks that a parsed policy file has the expected shape
+ * @param raw - The parsed JSON
+ * @returns The policy
+ * @throws Error describing the first problem found
+ */
+function validatePolicy(raw: unknown): HookPolicy {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).rules)) {
+    throw new Error('Policy must be an object with a "rules" array');
+  }
+
+  const policy = raw as HookPolicy;
+  policy.rules.forEach((rule, index) => {
+    const label = `Rule ${index + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`${label} must be an object`);
+    }
+    if (!POLICY_EFFECTS.includes(rule.then)) {
+      throw new Error(`${label} has unknown effect "${rule.then}". Expected one of: ${POLICY_EFFECTS.join(', ')}`);
+    }
+
+    const when = rule.when ?? {};
+    const actions = when.action === undefined ? [] : Array.isArray(when.action) ? when.action : [when.action];
+    for (const action of actions) {
+      if (!HOOK_ACTIONS.includes(action)) {
+        throw new Error(`${label} has unknown action "${action}". Expected one of: ${HOOK_ACTIONS.join(', ')}`);
+      }
+    }
+    for (const key of ['tool', 'project'] as const) {
+      if (when[key] !== undefined) {
+        try {
+          new RegExp(when[key]!);
+        } catch (error) {
+          throw new Error(`${label} has an invalid ${key} pattern: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+  });
+
+  return { name: typeof policy.name === 'string' ? policy.name : 'custom', rules: policy.rules };
+}
+
+/**
+ * Reads a JSON policy file
+ * @param filePath - Path to the policy file
+ * @returns The validated policy
+ */
+export function loadPolicyFile(filePath: string): HookPolicy {
+  return validatePolicy(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+}
@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Tracks the MCP resources a client subscribed to and batches change reports, so a burst of
+ * queue changes (say, three utterances delivered at once) becomes one update per resource.
+ *
+ * Emits `updated` with the uri of each changed, subscribed resource once the batch window ends.
+ */
+export class ResourceSubscriptions extends EventEmitter {
+  private batchMs: number;
+  private subscribed = new Set<string>();
+  private changedUris = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param batchMs - How long to collect changes after the first one before reporting them
+   */
+  constructor(batchMs: number) {
+    super();
+    this.batchMs = batchMs;
+  }
+
+  subscribe(uri: string): void {
+    this.subscribed.add(uri);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscribed.delete(uri);
+    this.changedUris.delete(uri);
+  }
+
+  /**
+   * Reports that resources changed. Resources nobody subscribed to are ignored.
+   * @param uris - The changed resources
+   */
+  changed(...uris: string[]): void {
+    uris.filter(uri => this.subscribed.has(uri)).forEach(uri => this.changedUris.add(uri));
+    if (this.changedUris.size === 0 || this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const changed = [...this.changedUris];
+      this.changedUris.clear();
+      changed.forEach(uri => this.emit('updated', uri));
+    }, this.batchMs);
+    // Pending updates should not keep the process alive
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,135 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { InMemoryUtteranceQueue } from './utterance-queue.js';
+import { debugLog } from './debug.js';
+
+// Used for hook requests without a session id and for browsers that never saw a session
+export const DEFAULT_SESSION_ID = 'default';
+
+export interface Session {
+  id: string;
+  name: string;
+  projectPath?: string;
+  transcriptPath?: string;
+  queue: InMemoryUtteranceQueue;
+  lastToolUseTimestamp: Date | null;
+  lastSpeakTimestamp: Date | null;
+  // Tools approved since Claude last spoke
+  toolsSinceSpeak: number;
+  lastSpokenText?: string;
+  // Set by the "stop"/"hold on" voice command until the next pre-tool or stop hook
+  interruptRequested: boolean;
+  // Set when the stop hook last blocked because Claude had not spoken after using tools
+  stopBlockedForSpeech: boolean;
+  // Questions (ask_user, confirm_action, permission prompts) waiting for the user's reply
+  openQuestions: number;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+interface SessionInfo {
+  projectPath?: string;
+  transcriptPath?: string;
+}
+
+/**
+ * Tracks Claude Code sessions sharing this server, keyed by the `session_id`
+ * Claude Code sends with every hook. Each session owns its utterance queue and
+ * speak-after-tool state.
+ *
+ * Emits `changed` whenever a session is created or its details change.
+ */
+export class SessionRegistry extends EventEmitter {
+  private sessions = new Map<string, Session>();
+  private createQueue: (sessionId: string) => InMemoryUtteranceQueue;
+
+  constructor(createQueue: (sessionId: string) => InMemoryUtteranceQueue) {
+    super();
+    this.createQueue = createQueue;
+  }
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Returns the session for an id, creating it on first use
+   * @param id - Session id from the hook payload (falls back to the default session)
+   * @param info - Details reported by the hook, e.g. the project directory
+   * @returns The session
+   */
+  getOrCreate(id: string | undefined, info: SessionInfo = {}): Session {
+    const sessionId = id || DEFAULT_SESSION_ID;
+    let session = this.sessions.get(sessionId);
+
+    if (!session) {
+      const now = new Date();
+      session = {
+        id: sessionId,
+        name: sessionName(sessionId, info.projectPath),
+        projectPath: info.projectPath,
+        transcriptPath: info.transcriptPath,
+        queue: this.createQueue(sessionId),
+        lastToolUseTimestamp: null,
+        lastSpeakTimestamp: null,
+        toolsSinceSpeak: 0,
+        interruptRequested: false,
+        stopBlockedForSpeech: false,
+        openQuestions: 0,
+        createdAt: now,
+        lastActivity: now
+      };
+      this.sessions.set(sessionId, session);
+      debugLog(`[Sessions] Created session ${session.name} [id: ${sessionId}]`);
+      this.emit('changed', session);
+    } else if (info.projectPath && info.projectPath !== session.projectPath) {
+      session.projectPath = info.projectPath;
+      session.name = sessionName(sessionId, info.projectPath);
+      this.emit('changed', session);
+    }
+
+    if (info.transcriptPath) {
+      session.transcriptPath = info.transcriptPath;
+    }
+
+    return session;
+  }
+
+  // Records hook activity so the session becomes the default target for voice input
+  touch(id: string | undefined, info: SessionInfo = {}): Session {
+    const session = this.getOrCreate(id, info);
+    session.lastActivity = new Date();
+    return session;
+  }
+
+  /**
+   * Picks the session a browser or MCP tool request should use
+   * @param id - Session id requested by the caller, if any
+   * @param projectPath - Project directory of the caller (MCP servers run in their session's project)
+   * @returns The requested session (undefined if unknown), else the most recently active one in
+   *   the caller's project, else the most recently active one overall
+   */
+  resolve(id?: string, projectPath?: string): Session | undefined {
+    if (id) {
+      return this.sessions.get(id);
+    }
+    const inProject = projectPath ? this.list().find(s => s.projectPath === projectPath) : undefined;
+    return inProject ?? this.mostRecentlyActive() ?? this.getOrCreate(DEFAULT_SESSION_ID);
+  }
+
+  list(): Session[] {
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+  }
+
+  mostRecentlyActive(): Session | undefined {
+    return this.list()[0];
+  }
+}
+
+function sessionName(id: string, projectPath?: string): string {
+  if (projectPath) {
+    return `${path.basename(projectPath)} (${id.slice(0, 8)})`;
+  }
+  return id === DEFAULT_SESSION_ID ? 'Default' : id.slice(0, 8);
+}
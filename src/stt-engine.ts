@@ -0,0 +1,193 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { commandExists } from './tts-engine.js';
+
+const execFileAsync = promisify(execFile);
+
+type SttEngineName = 'whisper' | 'vosk' | 'stub';
+
+const STT_ENGINE_NAMES: SttEngineName[] = ['whisper', 'vosk', 'stub'];
+
+// Executable names whisper.cpp has shipped under
+const WHISPER_COMMANDS = ['whisper-cli', 'whisper-cpp', 'whisper'];
+
+interface TranscribeOptions {
+  // Recognition language such as "en-US"; engines only use the part before the region
+  language?: string;
+}
+
+/**
+ * Turns recorded speech into text on the machine running the server
+ */
+export interface SttEngine {
+  readonly name: SttEngineName;
+  /**
+   * @param audio - One recorded segment
+   * @param mimeType - Content type of the audio, e.g. "audio/wav" or "audio/webm;codecs=opus"
+   * @returns The recognized text (empty if nothing was said)
+   */
+  transcribe(audio: Buffer, mimeType: string, options?: TranscribeOptions): Promise<string>;
+}
+
+interface SttConfig {
+  // An engine name, or "auto" to use whichever is installed and configured
+  engine?: string;
+  // ggml model file for whisper.cpp
+  whisperModel?: string;
+  // Model directory for vosk
+  voskModel?: string;
+  // What the stub engine returns for every segment
+  stubText?: string;
+}
+
+/**
+ * Thrown when audio cannot be decoded, e.g. WebM without ffmpeg installed
+ */
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+function isWav(mimeType: string): boolean {
+  return /^audio\/(x-)?wav(e)?\b/.test(mimeType);
+}
+
+// Reads the canonical 44-byte header; anything unusual goes through ffmpeg instead
+function isWav16kMono(audio: Buffer): boolean {
+  return audio.length >= 44 && audio.toString('ascii', 0, 4) === 'RIFF' &&
+    audio.readUInt16LE(22) === 1 && audio.readUInt32LE(24) === 16000;
+}
+
+/**
+ * Writes the audio to a temporary 16 kHz mono WAV file, converting with ffmpeg when needed
+ * @returns Path of the WAV file; the caller removes it
+ */
+async function toWavFile(audio: Buffer, mimeType: string, resample: boolean): Promise<string> {
+  const base = path.join(os.tmpdir(), `voice-hooks-stt-${randomUUID()}`);
+  const wavFile = `${base}.wav`;
+
+  if (isWav(mimeType) && (!resample || isWav16kMono(audio))) {
+    fs.writeFileSync(wavFile, audio);
+    return wavFile;
+  }
+  if (!commandExists('ffmpeg')) {
+    throw new UnsupportedAudioError(`Cannot decode ${mimeType} without ffmpeg installed`);
+  }
+
+  const inputFile = `${base}.input`;
+  fs.writeFileSync(inputFile, audio);
+  try {
+    await execFileAsync('ffmpeg', ['-y', '-loglevel', 'error', '-i', inputFile, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavFile]);
+  } catch (error) {
+    fs.rmSync(wavFile, { force: true });
+    throw new UnsupportedAudioError(`Could not decode ${mimeType}: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    fs.rmSync(inputFile, { force: true });
+  }
+  return wavFile;
+}
+
+function baseLanguage(language?: string): string | undefined {
+  return language?.split('-')[0].toLowerCase();
+}
+
+class WhisperCppSttEngine implements SttEngine {
+  readonly name = 'whisper';
+  private command: string;
+  private model: string;
+
+  constructor(command: string, model: string) {
+    this.command = command;
+    this.model = model;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string, options: TranscribeOptions = {}): Promise<string> {
+    // whisper.cpp only reads 16 kHz WAV
+    const wavFile = await toWavFile(audio, mimeType, true);
+    try {
+      const { stdout } = await execFileAsync(this.command, [
+        '-m', this.model,
+        '-f', wavFile,
+        '-l', baseLanguage(options.language) ?? 'auto',
+        '--no-timestamps',
+        '--no-prints'
+      ]);
+      return stdout.split('\n').map(line => line.trim()).filter(Boolean).join(' ');
+    } finally {
+      fs.rmSync(wavFile, { force: true });
+    }
+  }
+}
+
+class VoskSttEngine implements SttEngine {
+  readonly name = 'vosk';
+  private model?: string;
+
+  constructor(model?: string) {
+    this.model = model;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string, options: TranscribeOptions = {}): Promise<string> {
+    const wavFile = await toWavFile(audio, mimeType, false);
+    const outputFile = `${wavFile}.txt`;
+    try {
+      const modelArgs = this.model ? ['--model', this.model] : ['--lang', baseLanguage(options.language) ?? 'en-us'];
+      await execFileAsync('vosk-transcriber', [...modelArgs, '-i', wavFile, '-o', outputFile]);
+      return fs.readFileSync(outputFile, 'utf8').replace(/\s+/g, ' ').trim();
+    } finally {
+      fs.rmSync(wavFile, { force: true });
+      fs.rmSync(outputFile, { force: true });
+    }
+  }
+}
+
+// Returns fixed text for every segment, for exercising clients without a recognizer installed
+class StubSttEngine implements SttEngine {
+  readonly name = 'stub';
+  private text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  async transcribe(): Promise<string> {
+    return this.text;
+  }
+}
+
+/**
+ * Creates the configured engine, auto-detecting an installed one when asked to
+ * @param config - Engine name ("auto" by default) and model locations
+ * @returns The engine, or undefined when auto-detection finds nothing usable
+ * @throws Error for unknown engine names, or whisper without a model or executable
+ */
+export function createSttEngine(config: SttConfig = {}): SttEngine | undefined {
+  const requested = config.engine || 'auto';
+  if (requested !== 'auto' && !STT_ENGINE_NAMES.includes(requested as SttEngineName)) {
+    throw new Error(`Unknown STT engine "${requested}". Expected auto or one of: ${STT_ENGINE_NAMES.join(', ')}`);
+  }
+
+  const whisperCommand = WHISPER_COMMANDS.find(command => commandExists(command));
+  if (requested === 'whisper' || (requested === 'auto' && config.whisperModel && whisperCommand)) {
+    if (!config.whisperModel) {
+      throw new Error('The whisper engine needs a model (MCP_VOICE_HOOKS_WHISPER_MODEL)');
+    }
+    if (!whisperCommand) {
+      throw new Error(`The whisper engine needs whisper.cpp installed (${WHISPER_COMMANDS.join(', ')})`);
+    }
+    return new WhisperCppSttEngine(whisperCommand, config.whisperModel);
+  }
+  if (requested === 'vosk' || (requested === 'auto' && commandExists('vosk-transcriber'))) {
+    return new VoskSttEngine(config.voskModel);
+  }
+  if (requested === 'stub') {
+    return new StubSttEngine(config.stubText ?? '');
+  }
+  return undefined;
+}
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Points PATH at an empty temporary bin directory for each test, so engine detection only
+ * finds the commands the test installs. Call it inside a describe block.
+ * @param prefix - Name prefix for the temporary directory
+ * @returns The temporary directory and a way to put fake executables on the PATH
+ */
+export function useFakePath(prefix: string) {
+  const originalPath = process.env.PATH;
+  let tmpDir: string;
+  let binDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    binDir = path.join(tmpDir, 'bin');
+    fs.mkdirSync(binDir);
+    process.env.PATH = binDir;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  return {
+    // Scratch space for the current test, removed afterwards
+    get tmpDir() {
+      return tmpDir;
+    },
+    // Fake executable, only needs to be found on the PATH
+    installCommand(name: string) {
+      fs.writeFileSync(path.join(binDir, name), '#!/bin/sh\n', { mode: 0o755 });
+    }
+  };
+}
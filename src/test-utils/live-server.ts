@@ -0,0 +1,97 @@
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const START_TIMEOUT_MS = 30000;
+
+export interface LiveServer {
+  // Base URL for supertest, e.g. http://localhost:12345
+  url: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Runs the real server from source on a free port, for tests that exercise routes end to end.
+ * It starts in a temporary directory with persistence, the UI and speech output turned off.
+ * @param env - Extra MCP_VOICE_HOOKS_* settings for this server
+ * @returns The server's URL and a way to stop it
+ * @throws If the server exits or does not start listening in time
+ */
+export async function startLiveServer(env: Record<string, string> = {}): Promise<LiveServer> {
+  const port = await freePort();
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-hooks-live-'));
+  const child = spawn(process.execPath, [
+    '--no-warnings',
+    '--loader', pathToFileURL(path.join(ROOT_DIR, 'node_modules', 'ts-node', 'esm.mjs')).href,
+    path.join(ROOT_DIR, 'src', 'unified-server.ts')
+  ], {
+    cwd: workDir,
+    env: {
+      PATH: process.env.PATH,
+      // Skip type checking, the type-check gate covers it
+      TS_NODE_TRANSPILE_ONLY: 'true',
+      TS_NODE_PROJECT: path.join(ROOT_DIR, 'tsconfig.json'),
+      MCP_VOICE_HOOKS_PORT: String(port),
+      MCP_VOICE_HOOKS_DISABLE_UI: '1',
+      MCP_VOICE_HOOKS_AUTO_OPEN_BROWSER: 'false',
+      MCP_VOICE_HOOKS_PERSIST_QUEUE: 'false',
+      MCP_VOICE_HOOKS_TTS_ENGINE: 'null',
+      ...env
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  try {
+    await waitForListening(child);
+  } catch (error) {
+    child.kill();
+    fs.rmSync(workDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    url: `http://localhost:${port}`,
+    stop: () => new Promise(resolve => {
+      child.once('exit', () => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+        resolve();
+      });
+      child.kill();
+    })
+  };
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function waitForListening(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Server did not start:\n${output}`)), START_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Server listening')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}:\n${output}`));
+    });
+  });
+}
@@ -0,0 +1,51 @@
+import { debugLog } from './debug.js';
+
+/**
+ * Tests a tool name against a pattern the way Claude Code hook matchers read:
+ * a regular expression that must match the whole name
+ * @param pattern - e.g. "Bash", "Edit|Write" or "mcp__github__.*"
+ * @param toolName - Tool name from the hook payload
+ * @returns Whether the pattern matches
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  return new RegExp(`^(?:${pattern})$`).test(toolName);
+}
+
+/**
+ * Set of tool-name patterns, e.g. the tools before which pending voice input is delivered
+ */
+export class ToolMatcher {
+  readonly patterns: string[];
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns.filter(pattern => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch (error) {
+        debugLog(`[Tools] Ignoring invalid tool pattern "${pattern}": ${error}`);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Builds a matcher from a comma-separated list of patterns
+   * @param list - e.g. "Bash, Edit|Write, mcp__github__.*" (empty or missing matches nothing)
+   * @returns The matcher
+   */
+  static parse(list: string | undefined): ToolMatcher {
+    return new ToolMatcher((list ?? '').split(',').map(pattern => pattern.trim()).filter(Boolean));
+  }
+
+  /**
+   * @param toolName - Tool name from the hook payload; hooks that do not send one only match catch-all patterns
+   */
+  matches(toolName: string | undefined): boolean {
+    return this.patterns.some(pattern => matchesToolPattern(pattern, toolName ?? ''));
+  }
+
+  describe(): string {
+    return this.patterns.length > 0 ? this.patterns.join(', ') : 'none';
+  }
+}
@@ -0,0 +1,151 @@
+import type { ConversationEntry } from './types.js';
+
+const EXPORT_FORMATS = ['md', 'json', 'srt', 'txt'] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  txt: 'text/plain; charset=utf-8'
+};
+
+interface TranscriptSession {
+  id: string;
+  name: string;
+  entries: ConversationEntry[];
+}
+
+interface ExportFilters {
+  // Only entries at or after this time
+  from?: Date;
+  // Only entries at or before this time
+  to?: Date;
+}
+
+// An entry together with the session it belongs to, for formats that merge sessions
+interface SessionEntry {
+  session: TranscriptSession;
+  entry: ConversationEntry;
+}
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Renders conversation history for attaching to bug reports and pull requests
+ * @param sessions - Sessions to include, each with its conversation
+ * @param format - md, json, srt or txt
+ * @param filters - Date range to include
+ * @returns The document and its content type
+ */
+export function exportTranscript(
+  sessions: TranscriptSession[],
+  format: ExportFormat,
+  filters: ExportFilters = {}
+): { contentType: string; body: string } {
+  const filtered = sessions
+    .map(session => ({
+      ...session,
+      entries: session.entries.filter(entry =>
+        (!filters.from || entry.timestamp >= filters.from) && (!filters.to || entry.timestamp <= filters.to))
+    }))
+    .filter(session => session.entries.length > 0);
+
+  const render = { md: renderMarkdown, json: renderJson, srt: renderSrt, txt: renderText }[format];
+  return { contentType: CONTENT_TYPES[format], body: render(filtered, filters) };
+}
+
+// "2026-10-19 18:46:32" in UTC, so exports read the same wherever they are opened
+function formatTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function speaker(entry: ConversationEntry): string {
+  return entry.role === 'user' ? 'User' : 'Claude';
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+function describeRange(filters: ExportFilters): string | undefined {
+  if (!filters.from && !filters.to) {
+    return undefined;
+  }
+  return `${filters.from ? formatTime(filters.from) : 'start'} to ${filters.to ? formatTime(filters.to) : 'now'} (UTC)`;
+}
+
+function renderMarkdown(sessions: TranscriptSession[], filters: ExportFilters): string {
+  const lines = ['# Voice Conversation Transcript', ''];
+  const range = describeRange(filters);
+  if (range) {
+    lines.push(`Range: ${range}`, '');
+  }
+  if (sessions.length === 0) {
+    lines.push('_No conversation in this range._', '');
+  }
+
+  sessions.forEach(session => {
+    lines.push(`## ${session.name} (\`${session.id}\`)`, '');
+    session.entries.forEach(entry => {
+      const status = entry.role === 'user' ? ` _(${entry.status})_` : '';
+      lines.push(`- **${formatTime(entry.timestamp)} ${speaker(entry)}**${status}: ${singleLine(entry.text)}`);
+    });
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+function renderJson(sessions: TranscriptSession[], filters: ExportFilters): string {
+  return JSON.stringify({
+    exportedAt: new Date(),
+    from: filters.from,
+    to: filters.to,
+    sessions
+  }, null, 2) + '\n';
+}
+
+function renderText(sessions: TranscriptSession[]): string {
+  return byTime(sessions)
+    .map(({ session, entry }) => {
+      const status = entry.role === 'user' ? ` (${entry.status})` : '';
+      return `[${formatTime(entry.timestamp)}] ${session.name} | ${speaker(entry)}${status}: ${singleLine(entry.text)}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Subtitles timed from the first entry, so a transcript can be laid over a screen recording
+ * of the session. Each cue lasts about as long as reading it takes, up to the next entry.
+ */
+function renderSrt(sessions: TranscriptSession[]): string {
+  const entries = byTime(sessions);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const start = entries[0].entry.timestamp.getTime();
+  const showSession = sessions.length > 1;
+  return entries.map(({ session, entry }, index) => {
+    const from = entry.timestamp.getTime() - start;
+    const readingMs = Math.min(10000, Math.max(2000, entry.text.split(/\s+/).length * 400));
+    const next = entries[index + 1]?.entry.timestamp.getTime();
+    const to = next !== undefined && next - start > from ? Math.min(from + readingMs, next - start) : from + readingMs;
+    const label = showSession ? `${session.name} | ${speaker(entry)}` : speaker(entry);
+    return `${index + 1}\n${srtTime(from)} --> ${srtTime(to)}\n${label}: ${entry.text.trim()}\n`;
+  }).join('\n');
+}
+
+function srtTime(ms: number): string {
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, '0');
+  return `${pad(ms / 3600000)}:${pad(ms / 60000 % 60)}:${pad(ms / 1000 % 60)},${pad(ms % 1000, 3)}`;
+}
+
+function byTime(sessions: TranscriptSession[]): SessionEntry[] {
+  return sessions
+    .flatMap(session => session.entries.map(entry => ({ session, entry })))
+    .sort((a, b) => a.entry.timestamp.getTime() - b.entry.timestamp.getTime());
+}
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import { debugLog } from './debug.js';
+
+const execFileAsync = promisify(execFile);
+
+type TtsEngineName = 'say' | 'espeak-ng' | 'piper' | 'file' | 'null';
+
+const TTS_ENGINE_NAMES: TtsEngineName[] = ['say', 'espeak-ng', 'piper', 'file', 'null'];
+
+interface SpeakOptions {
+  // Words per minute, as understood by `say`
+  rate?: number;
+}
+
+/**
+ * Speaks text out loud on the machine running the server
+ */
+export interface TtsEngine {
+  readonly name: TtsEngineName;
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  // Renders speech to a WAV file instead of playing it (engines without audio output omit this)
+  synthesize?(text: string, outputFile: string, options?: SpeakOptions): Promise<void>;
+}
+
+interface TtsConfig {
+  // An engine name, or "auto" to pick one for the platform
+  engine?: string;
+  // Voice model for piper (.onnx)
+  piperModel?: string;
+  // Where the file engine appends spoken text
+  outputFile?: string;
+}
+
+/**
+ * Checks whether an executable is on the PATH
+ * @param command - Executable name, e.g. "espeak-ng"
+ * @returns True if found
+ */
+export function commandExists(command: string): boolean {
+  const extensions = process.platform === 'win32' ? ['.exe', '.cmd', ''] : [''];
+  return (process.env.PATH ?? '').split(path.delimiter).some(dir =>
+    extensions.some(ext => {
+      try {
+        fs.accessSync(path.join(dir, command + ext), fs.constants.X_OK);
+        return true;
+      } catch {
+        return false;
+      }
+    })
+  );
+}
+
+/**
+ * Picks the best available engine for this platform
+ * @param config - Piper is only considered when a voice model is configured
+ * @returns The engine name
+ */
+function detectTtsEngine(config: TtsConfig): TtsEngineName {
+  if (process.platform === 'darwin' && commandExists('say')) {
+    return 'say';
+  }
+  if (config.piperModel && commandExists('piper')) {
+    return 'piper';
+  }
+  if (commandExists('espeak-ng')) {
+    return 'espeak-ng';
+  }
+  return config.outputFile ? 'file' : 'null';
+}
+
+/**
+ * Finds a command-line player for audio files on this machine
+ * @returns The player and the arguments it needs before the file path, or undefined if none is installed
+ */
+function findAudioPlayer(): { command: string; args: string[] } | undefined {
+  if (process.platform === 'darwin') {
+    return { command: 'afplay', args: [] };
+  }
+  const players = [
+    { command: 'paplay', args: [] },
+    { command: 'aplay', args: ['-q'] },
+    { command: 'ffplay', args: ['-nodisp', '-autoexit', '-loglevel', 'quiet'] }
+  ];
+  return players.find(player => commandExists(player.command));
+}
+
+/**
+ * Plays an audio file through the system's audio player
+ * @param filePath - WAV/AIFF/OGG file
+ * @throws Error if no player is installed or playback fails
+ */
+export async function playAudioFile(filePath: string): Promise<void> {
+  const player = findAudioPlayer();
+  if (!player) {
+    throw new Error('No audio player found (install pulseaudio-utils, alsa-utils or ffmpeg)');
+  }
+  await execFileAsync(player.command, [...player.args, filePath]);
+}
+
+// System sound used to signal that Claude is waiting for voice input
+export function notificationSoundFile(): string | undefined {
+  const candidates = process.platform === 'darwin'
+    ? ['/System/Library/Sounds/Funk.aiff']
+    : ['/usr/share/sounds/freedesktop/stereo/complete.oga', '/usr/share/sounds/freedesktop/stereo/bell.oga'];
+  return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+// Runs a command that reads the text from stdin
+function runWithInput(command: string, args: string[], input: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+class SayTtsEngine implements TtsEngine {
+  readonly name = 'say';
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    // Note: say doesn't support volume control
+    await execFileAsync('say', ['-r', String(options.rate ?? 150), '--', text]);
+  }
+
+  async synthesize(text: string, outputFile: string, options: SpeakOptions = {}): Promise<void> {
+    await execFileAsync('say', ['-r', String(options.rate ?? 150), '-o', outputFile, '--data-format=LEI16@22050', '--', text]);
+  }
+}
+
+class EspeakTtsEngine implements TtsEngine {
+  readonly name = 'espeak-ng';
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    await execFileAsync('espeak-ng', ['-s', String(options.rate ?? 150), '--', text]);
+  }
+
+  async synthesize(text: string, outputFile: string, options: SpeakOptions = {}): Promise<void> {
+    await execFileAsync('espeak-ng', ['-s', String(options.rate ?? 150), '-w', outputFile, '--', text]);
+  }
+}
+
+class PiperTtsEngine implements TtsEngine {
+  readonly name = 'piper';
+  private model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    const outputFile = path.join(os.tmpdir(), `voice-hooks-piper-${process.pid}-${Date.now()}.wav`);
+    try {
+      await this.synthesize(text, outputFile, options);
+      await playAudioFile(outputFile);
+    } finally {
+      fs.rmSync(outputFile, { force: true });
+    }
+  }
+
+  async synthesize(text: string, outputFile: string, options: SpeakOptions = {}): Promise<void> {
+    // Piper has no words-per-minute setting; a longer phoneme length means slower speech
+    const lengthScale = (150 / (options.rate ?? 150)).toFixed(2);
+    await runWithInput('piper', ['--model', this.model, '--length_scale', lengthScale, '--output_file', outputFile], text);
+  }
+}
+
+// Writes what would have been spoken to a file (or nowhere), for headless machines and tests
+class FileTtsEngine implements TtsEngine {
+  readonly name: 'file' | 'null';
+  private outputFile?: string;
+
+  constructor(outputFile?: string) {
+    this.name = outputFile ? 'file' : 'null';
+    this.outputFile = outputFile;
+  }
+
+  async speak(text: string): Promise<void> {
+    if (!this.outputFile) {
+      debugLog(`[TTS] No engine available, not speaking: "${text}"`);
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.appendFileSync(this.outputFile, `${new Date().toISOString()}\t${text}\n`);
+  }
+}
+
+/**
+ * Creates the configured engine, auto-detecting one when asked to
+ * @param config - Engine name ("auto" by default) and engine settings
+ * @returns The engine
+ * @throws Error for unknown engine names or a piper engine without a model
+ */
+export function createTtsEngine(config: TtsConfig = {}): TtsEngine {
+  const requested = config.engine || 'auto';
+  if (requested !== 'auto' && !TTS_ENGINE_NAMES.includes(requested as TtsEngineName)) {
+    throw new Error(`Unknown TTS engine "${requested}". Expected auto or one of: ${TTS_ENGINE_NAMES.join(', ')}`);
+  }
+
+  const name = requested === 'auto' ? detectTtsEngine(config) : requested as TtsEngineName;
+  switch (name) {
+    case 'say':
+      return new SayTtsEngine();
+    case 'espeak-ng':
+      return new EspeakTtsEngine();
+    case 'piper':
+      if (!config.piperModel) {
+        throw new Error('The piper engine needs a voice model (MCP_VOICE_HOOKS_PIPER_MODEL)');
+      }
+      return new PiperTtsEngine(config.piperModel);
+    case 'file':
+    case 'null':
+      return new FileTtsEngine(name === 'file' ? config.outputFile : undefined);
+  }
+}
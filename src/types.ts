@@ -1,14 +1,61 @@
+export type UtteranceStatus = 'pending' | 'delivered' | 'responded';
+
 export interface Utterance {
   id: string;
   text: string;
   timestamp: Date;
-  status: 'pending' | 'delivered' | 'responded';
+  status: UtteranceStatus;
+  // A course correction: delivered at the next pre-tool hook and listed first
+  urgent?: boolean;
+}
+
+// What Claude said in reply, linked to the utterances it answered
+export interface AssistantResponse {
+  id: string;
+  text: string;
+  timestamp: Date;
+  utteranceIds: string[];
 }
 
+// One turn of the conversation transcript, oldest first
+export type ConversationEntry =
+  | ({ role: 'user' } & Utterance)
+  | ({ role: 'assistant' } & AssistantResponse);
+
 export interface UtteranceQueue {
   utterances: Utterance[];
+  responses: AssistantResponse[];
   add(text: string): Utterance;
   getRecent(limit?: number): Utterance[];
   markDelivered(id: string): void;
+  markPending(id: string): void;
+  markResponded(id: string): void;
+  recordResponse(text: string, utteranceIds: string[]): AssistantResponse;
+  getConversation(limit?: number): ConversationEntry[];
+  getStatusCounts(): Record<UtteranceStatus, number> & { total: number };
+  prune(now?: number): Utterance[];
+  remove(id: string): Utterance | undefined;
+  removeLastPending(): Utterance | undefined;
+  clearPending(): Utterance[];
+  updateText(id: string, text: string): Utterance;
+  retract(id: string): Utterance;
+  merge(ids: string[]): Utterance;
   clear(): void;
-}
\ No newline at end of file
+}
+
+// Changes recorded by a persistent utterance store
+export type UtteranceStoreEvent =
+  | { type: 'added'; utterance: Utterance }
+  | { type: 'status'; id: string; status: UtteranceStatus }
+  | { type: 'text'; id: string; text: string }
+  | { type: 'removed'; id: string }
+  | { type: 'response'; response: AssistantResponse }
+  | { type: 'pruned'; utteranceIds: string[]; responseIds: string[] }
+  | { type: 'cleared' };
+
+export interface UtteranceStore {
+  load(): Utterance[];
+  // Responses restored by the last load
+  loadedResponses(): AssistantResponse[];
+  append(event: UtteranceStoreEvent): void;
+}
@@ -6,8 +6,6 @@ import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { randomUUID } from 'crypto';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import http from 'http';
 import { WebSocketServer } from 'ws';
 import WebSocket from 'ws';
@@ -16,29 +14,130 @@ import { debugLog } from './debug.ts';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { InMemoryUtteranceQueue } from './utterance-queue.js';
+import { InMemoryUtteranceQueue, UtteranceEditError } from './utterance-queue.js';
+import { JsonlUtteranceStore } from './utterance-store.js';
+import { SessionRegistry, DEFAULT_SESSION_ID } from './session-registry.js';
+import type { Session } from './session-registry.js';
+import { describeToolInput, parseHookPayload } from './hook-payload.js';
+import type { HookPayload } from './hook-payload.js';
+import { countsAsToolUse, DEFAULT_POLICY, evaluatePolicy, loadPolicyFile } from './hook-policy.js';
+import type { HookAction, HookPolicy } from './hook-policy.js';
+import { ToolMatcher } from './tool-matcher.js';
+import { VoiceCommandMatcher } from './voice-commands.js';
+import { createTtsEngine, notificationSoundFile, playAudioFile } from './tts-engine.js';
+import type { TtsEngine } from './tts-engine.js';
+import { AudioCache } from './audio-cache.js';
+import { createSttEngine, UnsupportedAudioError } from './stt-engine.js';
+import type { SttEngine } from './stt-engine.js';
+import { AudioStream } from './audio-stream.js';
+import { encodeServerMessage, isReplayed, parseClientMessage, ProtocolError, PROTOCOL_VERSION } from './ws-protocol.js';
+import type { ClientMessage, QuestionKind, ServerMessage } from './ws-protocol.js';
+import { EventLog } from './event-log.js';
+import { ResourceSubscriptions } from './resource-subscriptions.js';
+import { exportTranscript, isExportFormat } from './transcript-export.js';
+import { matchChoice, matchConfirmation } from './answer-matcher.js';
+import type { VoiceCommand } from './voice-commands.js';
+import type { AssistantResponse, UtteranceStatus } from './types.js';
+import fs from 'fs';
+import os from 'os';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 // Constants
 const WAIT_TIMEOUT_SECONDS = 60;
+// How long ask_user waits for an answer, by default and at most (fetch gives up on responses after 300s)
+const ASK_TIMEOUT_SECONDS = 120;
+const MAX_ASK_TIMEOUT_SECONDS = 240;
+// Permission prompts answered by voice (/api/hooks/permission). Denied tools are blocked and
+// allowed tools approved without asking; asked tools fall back to Claude Code's prompt on timeout.
+const PERMISSION_ASK_TOOLS = ToolMatcher.parse(process.env.MCP_VOICE_HOOKS_PERMISSION_ASK_TOOLS ?? 'Bash, Edit, MultiEdit, Write, NotebookEdit, WebFetch');
+const PERMISSION_ALLOW_TOOLS = ToolMatcher.parse(process.env.MCP_VOICE_HOOKS_PERMISSION_ALLOW_TOOLS); // Default to none
+const PERMISSION_DENY_TOOLS = ToolMatcher.parse(process.env.MCP_VOICE_HOOKS_PERMISSION_DENY_TOOLS); // Default to none
+const PERMISSION_TIMEOUT_SECONDS = process.env.MCP_VOICE_HOOKS_PERMISSION_TIMEOUT_SECONDS ? parseInt(process.env.MCP_VOICE_HOOKS_PERMISSION_TIMEOUT_SECONDS) : 30;
+// What confirm_action decides when the user doesn't answer in time
+const CONFIRM_TIMEOUT_DECISION = process.env.MCP_VOICE_HOOKS_CONFIRM_TIMEOUT_DECISION === 'approve' ? 'approve' : 'deny'; // Default to deny
 const HTTP_PORT = process.env.MCP_VOICE_HOOKS_PORT ? parseInt(process.env.MCP_VOICE_HOOKS_PORT) : 5111;
 const AUTO_DELIVER_VOICE_INPUT = process.env.MCP_VOICE_HOOKS_AUTO_DELIVER_VOICE_INPUT !== 'false'; // Default to true (auto-deliver enabled)
-const AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS = process.env.MCP_VOICE_HOOKS_AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS === 'true'; // Default to false (don't auto-deliver voice input before tools. Only effective if auto-deliver is enabled)
+// Tools before which pending voice input is delivered (only effective if auto-deliver is enabled).
+// MCP_VOICE_HOOKS_AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS=true is kept as shorthand for every tool.
+const AUTO_DELIVER_TOOLS = process.env.MCP_VOICE_HOOKS_AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS === 'true'
+  ? new ToolMatcher(['.*'])
+  : ToolMatcher.parse(process.env.MCP_VOICE_HOOKS_AUTO_DELIVER_TOOLS); // Default to none
 
 const DISABLE_UI = process.env.MCP_VOICE_HOOKS_DISABLE_UI === '1';
 
-// Promisified exec for async/await
-const execAsync = promisify(exec);
+// Merge speech recognition results arriving within this window into one utterance (0 disables)
+const COALESCE_MS = process.env.MCP_VOICE_HOOKS_COALESCE_MS ? parseInt(process.env.MCP_VOICE_HOOKS_COALESCE_MS) : 0;
+// Longest a hook waits for an open window to close, in case the user keeps talking
+const COALESCE_MAX_WAIT_MS = process.env.MCP_VOICE_HOOKS_COALESCE_MAX_WAIT_MS ? parseInt(process.env.MCP_VOICE_HOOKS_COALESCE_MAX_WAIT_MS) : 5000;
+
+// Queue persistence (restores pending/delivered/responded utterances across restarts)
+const PERSIST_QUEUE = process.env.MCP_VOICE_HOOKS_PERSIST_QUEUE !== 'false'; // Default to true
+const QUEUE_FILE = process.env.MCP_VOICE_HOOKS_QUEUE_FILE || path.join(process.cwd(), '.claude', 'voice-hooks', 'utterances.jsonl');
+const QUEUE_MAX_ENTRIES = process.env.MCP_VOICE_HOOKS_QUEUE_MAX_ENTRIES ? parseInt(process.env.MCP_VOICE_HOOKS_QUEUE_MAX_ENTRIES) : 500;
+const QUEUE_MAX_AGE_HOURS = process.env.MCP_VOICE_HOOKS_QUEUE_MAX_AGE_HOURS ? parseFloat(process.env.MCP_VOICE_HOOKS_QUEUE_MAX_AGE_HOURS) : 24 * 7;
+// The same limits prune answered utterances from memory; optionally drop them as soon as they're answered
+const QUEUE_KEEP_ONLY_UNRESPONDED = process.env.MCP_VOICE_HOOKS_QUEUE_KEEP_ONLY_UNRESPONDED === 'true'; // Default to false
+const QUEUE_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Server-side speech: MCP_VOICE_HOOKS_TTS_ENGINE picks say, espeak-ng, piper, file or null (default: auto-detect)
+let ttsEngine: TtsEngine;
+try {
+  ttsEngine = createTtsEngine({
+    engine: process.env.MCP_VOICE_HOOKS_TTS_ENGINE,
+    piperModel: process.env.MCP_VOICE_HOOKS_PIPER_MODEL,
+    outputFile: process.env.MCP_VOICE_HOOKS_TTS_FILE
+  });
+} catch (error) {
+  console.error(`[TTS] ${error instanceof Error ? error.message : error}. Server-side speech is disabled.`);
+  ttsEngine = createTtsEngine({ engine: 'null' });
+}
+
+// Optionally render speak text with the server-side engine and let browsers play the audio
+const SERVER_TTS = process.env.MCP_VOICE_HOOKS_SERVER_TTS === 'true'; // Default to false (browser speech synthesis)
+const audioCache = new AudioCache(
+  process.env.MCP_VOICE_HOOKS_AUDIO_CACHE_DIR || path.join(os.tmpdir(), 'mcp-voice-hooks-audio'),
+  ttsEngine,
+  { format: process.env.MCP_VOICE_HOOKS_AUDIO_FORMAT === 'ogg' ? 'ogg' : 'wav' }
+);
+
+// Server-side speech recognition for uploaded audio: MCP_VOICE_HOOKS_STT_ENGINE picks whisper, vosk or stub
+// (default: auto-detect; /api/transcribe is unavailable when nothing is installed)
+let sttEngine: SttEngine | undefined;
+try {
+  sttEngine = createSttEngine({
+    engine: process.env.MCP_VOICE_HOOKS_STT_ENGINE,
+    whisperModel: process.env.MCP_VOICE_HOOKS_WHISPER_MODEL,
+    voskModel: process.env.MCP_VOICE_HOOKS_VOSK_MODEL,
+    stubText: process.env.MCP_VOICE_HOOKS_STT_STUB_TEXT
+  });
+} catch (error) {
+  console.error(`[STT] ${error instanceof Error ? error.message : error}. Server-side speech recognition is disabled.`);
+}
+
+// How many recent events are kept for browsers that reconnect
+const EVENT_BUFFER_SIZE = process.env.MCP_VOICE_HOOKS_EVENT_BUFFER_SIZE ? parseInt(process.env.MCP_VOICE_HOOKS_EVENT_BUFFER_SIZE) : 200;
+
+// Voice activity detection for audio streamed over the WebSocket
+const VAD_THRESHOLD = process.env.MCP_VOICE_HOOKS_VAD_THRESHOLD ? parseFloat(process.env.MCP_VOICE_HOOKS_VAD_THRESHOLD) : 0.02;
+const VAD_SILENCE_MS = process.env.MCP_VOICE_HOOKS_VAD_SILENCE_MS ? parseInt(process.env.MCP_VOICE_HOOKS_VAD_SILENCE_MS) : 700;
 
 // Function to play a sound notification
 async function playNotificationSound() {
   try {
-    // Use macOS system sound
-    await execAsync('afplay /System/Library/Sounds/Funk.aiff');
+    const soundFile = notificationSoundFile();
+    if (!soundFile) {
+      debugLog('[Sound] No notification sound available on this system');
+      return;
+    }
+    await playAudioFile(soundFile);
     debugLog('[Sound] Played notification sound');
   } catch (error) {
     debugLog(`[Sound] Failed to play sound: ${error}`);
@@ -52,6 +151,7 @@ interface Utterance {
   text: string;
   timestamp: Date;
   status: 'pending' | 'delivered' | 'responded';
+  urgent?: boolean;
 }
 
 class UtteranceQueue {
@@ -91,13 +191,152 @@ class UtteranceQueue {
   }
 }
 
+// Hook policy: MCP_VOICE_HOOKS_POLICY or .claude/voice-hooks-policy.json, else the built-in default
+const POLICY_FILE = process.env.MCP_VOICE_HOOKS_POLICY || path.join(process.cwd(), '.claude', 'voice-hooks-policy.json');
+let activePolicy: HookPolicy = DEFAULT_POLICY;
+let activePolicySource = 'default';
+if (fs.existsSync(POLICY_FILE)) {
+  try {
+    activePolicy = loadPolicyFile(POLICY_FILE);
+    activePolicySource = POLICY_FILE;
+  } catch (error) {
+    // Keep the default policy rather than failing every hook
+    console.error(`[Policy] Ignoring invalid policy ${POLICY_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Voice commands ("scratch that", "stop", ...) handled by the server instead of queued for Claude.
+// Phrases can be extended per language with MCP_VOICE_HOOKS_VOICE_COMMANDS_FILE or .claude/voice-hooks-commands.json
+const VOICE_COMMANDS_ENABLED = process.env.MCP_VOICE_HOOKS_VOICE_COMMANDS !== 'false'; // Default to true
+const VOICE_COMMANDS_FILE = process.env.MCP_VOICE_HOOKS_VOICE_COMMANDS_FILE || path.join(process.cwd(), '.claude', 'voice-hooks-commands.json');
+let voiceCommands = VoiceCommandMatcher.load();
+if (VOICE_COMMANDS_ENABLED && fs.existsSync(VOICE_COMMANDS_FILE)) {
+  try {
+    voiceCommands = VoiceCommandMatcher.load(VOICE_COMMANDS_FILE);
+  } catch (error) {
+    // Keep the built-in phrases rather than failing every utterance
+    console.error(`[Commands] Ignoring invalid voice command phrases ${VOICE_COMMANDS_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
 // Determine if we're running in MCP-managed mode
 const IS_MCP_MANAGED = process.argv.includes('--mcp-managed');
 
-// Single utterance queue
-const queue = new InMemoryUtteranceQueue();
-let lastToolUseTimestamp: Date | null = null;
-let lastSpeakTimestamp: Date | null = null;
+// Persisted queues live next to QUEUE_FILE: the default session uses QUEUE_FILE itself,
+// every other session gets utterances-<session id>.jsonl
+const QUEUE_DIR = path.dirname(QUEUE_FILE);
+const SESSION_QUEUE_FILE_PATTERN = /^utterances-(.+)\.jsonl$/;
+
+function queueFileForSession(sessionId: string): string {
+  if (sessionId === DEFAULT_SESSION_ID) {
+    return QUEUE_FILE;
+  }
+  return path.join(QUEUE_DIR, `utterances-${encodeURIComponent(sessionId)}.jsonl`);
+}
+
+// Voice history exposed as MCP resources, so Claude can re-read earlier instructions after
+// its context is compacted
+const CONVERSATION_RESOURCE = 'voice://conversation/recent';
+const PENDING_RESOURCE = 'voice://utterances/pending';
+const PREFERENCES_RESOURCE = 'voice://preferences';
+const resourceSubscriptions = new ResourceSubscriptions(250);
+
+// One utterance queue per Claude Code session
+const sessions = new SessionRegistry(sessionId => {
+  const queue = new InMemoryUtteranceQueue(
+    PERSIST_QUEUE
+      ? new JsonlUtteranceStore(queueFileForSession(sessionId), {
+        maxEntries: QUEUE_MAX_ENTRIES,
+        maxAgeMs: QUEUE_MAX_AGE_HOURS * 60 * 60 * 1000
+      })
+      : undefined,
+    {
+      coalesceMs: COALESCE_MS,
+      retention: {
+        maxEntries: QUEUE_MAX_ENTRIES,
+        maxAgeMs: QUEUE_MAX_AGE_HOURS * 60 * 60 * 1000,
+        keepOnlyUnresponded: QUEUE_KEEP_ONLY_UNRESPONDED
+      }
+    }
+  );
+  // Keep browser chats in sync with edits, retractions and merges
+  queue.on('updated', (utterance: Utterance) => notifyUtteranceUpdate('updated', utterance, sessionId));
+  queue.on('removed', (utterance: Utterance) => notifyUtteranceUpdate('removed', utterance, sessionId));
+  // Tell subscribed MCP clients to re-read the conversation resources
+  for (const event of ['added', 'updated', 'removed', 'pending', 'delivered', 'responded', 'response', 'cleared', 'pruned']) {
+    queue.on(event, () => resourceSubscriptions.changed(CONVERSATION_RESOURCE, PENDING_RESOURCE));
+  }
+  return queue;
+});
+
+// Drop answered utterances beyond the retention limits
+setInterval(() => {
+  sessions.list().forEach(session => session.queue.prune());
+}, QUEUE_PRUNE_INTERVAL_MS).unref();
+
+// Restore sessions persisted by a previous run
+if (PERSIST_QUEUE && fs.existsSync(QUEUE_DIR)) {
+  for (const file of fs.readdirSync(QUEUE_DIR)) {
+    const match = file.match(SESSION_QUEUE_FILE_PATTERN);
+    if (match) {
+      sessions.getOrCreate(decodeURIComponent(match[1]));
+    }
+  }
+}
+if (PERSIST_QUEUE && fs.existsSync(QUEUE_FILE)) {
+  sessions.getOrCreate(DEFAULT_SESSION_ID);
+}
+
+// Resolves the session a browser or MCP tool request targets (sessionId in the body or query,
+// else projectPath, which the MCP server sends). Responds with 404 and returns undefined when
+// an unknown session is requested.
+function sessionForRequest(req: Request, res: Response): Session | undefined {
+  const sessionId = (req.body?.sessionId ?? req.query.sessionId) as string | undefined;
+  const projectPath = (req.body?.projectPath ?? req.query.projectPath) as string | undefined;
+  const session = sessions.resolve(sessionId || undefined, projectPath || undefined);
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${sessionId}` });
+  }
+  return session;
+}
+
+// Hook requests identify their session through the payload Claude Code sends
+function sessionForHook(payload: HookPayload): Session {
+  const sessionId = payload.sessionId;
+  const isNewSession = !!sessionId && !sessions.get(sessionId);
+  const session = sessions.touch(sessionId, {
+    projectPath: payload.cwd,
+    transcriptPath: payload.transcriptPath
+  });
+
+  // Voice input spoken before any session connected waits in the default session.
+  // Hand it to the first real session so it isn't stranded there.
+  const defaultSession = sessions.get(DEFAULT_SESSION_ID);
+  if (isNewSession && defaultSession && defaultSession !== session) {
+    defaultSession.queue.utterances
+      .filter(u => u.status === 'pending')
+      .forEach(u => {
+        defaultSession.queue.remove(u.id);
+        session.queue.add(u.text, u.timestamp, { urgent: u.urgent, coalesce: false });
+      });
+  }
+
+  return session;
+}
+
+function sessionSummary(session: Session) {
+  return {
+    id: session.id,
+    name: session.name,
+    projectPath: session.projectPath,
+    transcriptPath: session.transcriptPath,
+    isActive: session === sessions.mostRecentlyActive(),
+    createdAt: session.createdAt,
+    lastActivity: session.lastActivity,
+    pendingUtterances: session.queue.getStatusCounts().pending,
+    totalUtterances: session.queue.getStatusCounts().total
+  };
+}
 
 // Voice preferences (controlled by browser)
 let voicePreferences = {
@@ -149,11 +388,11 @@ app.get('/api/system', (req: Request, res: Response) => {
     },
     voice: {
       enabled: !DISABLE_UI,
-      activeClients: ttsClients.size
+      activeClients: browserCount()
     },
     sessions: {
-      active: ttsClients.size,
-      total: ttsClients.size
+      active: sessions.list().filter(s => s.queue.utterances.some(u => u.status !== 'responded')).length,
+      total: sessions.list().length
     },
     memory: process.memoryUsage()
   });
@@ -161,79 +400,340 @@ app.get('/api/system', (req: Request, res: Response) => {
 
 app.get('/api/activity', (req: Request, res: Response) => {
   const limit = parseInt(req.query.limit as string) || 10;
-  const activities = queue.utterances
-    .slice(-limit)
-    .map(utterance => ({
+  const activities = sessions.list()
+    .flatMap(session => session.queue.utterances.map(utterance => ({
       id: utterance.id,
       text: utterance.text,
       timestamp: utterance.timestamp,
       status: utterance.status,
-      type: 'utterance'
-    }));
-  
+      type: 'utterance',
+      sessionId: session.id,
+      sessionName: session.name
+    })))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()) // Most recent first
+    .slice(0, limit);
+
   res.json({
-    activities: activities.reverse() // Most recent first
+    activities
+  });
+});
+
+// Session routes
+app.get('/api/sessions', (_req: Request, res: Response) => {
+  res.json({
+    sessions: sessions.list().map(sessionSummary),
+    activeSessionId: sessions.mostRecentlyActive()?.id ?? null
+  });
+});
+
+app.get('/api/sessions/:id/details', (req: Request, res: Response) => {
+  const session = sessions.get(req.params.id);
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+
+  res.json({
+    ...sessionSummary(session),
+    lastToolUseTimestamp: session.lastToolUseTimestamp,
+    lastSpeakTimestamp: session.lastSpeakTimestamp,
+    utterances: session.queue.getRecent(20).map(u => ({
+      id: u.id,
+      text: u.text,
+      timestamp: u.timestamp,
+      status: u.status,
+    }))
   });
 });
 
 
 // API Routes
 app.post('/api/potential-utterances', (req: Request, res: Response) => {
-  const { text, timestamp } = req.body;
+  const { text, timestamp, language, urgent } = req.body;
 
   if (!text || !text.trim()) {
     res.status(400).json({ error: 'Text is required' });
     return;
   }
 
-  const parsedTimestamp = timestamp ? new Date(timestamp) : undefined;
-  const utterance = queue.add(text, parsedTimestamp);
-  
-  res.json({
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  res.json(receiveUtterance(text, session, { timestamp, language, urgent: urgent === true }));
+});
+
+// Recognizes uploaded audio (WAV, WebM or Ogg/Opus) on the server, for browsers without
+// speech recognition and command-line mic clients. Session and language come from the query string.
+app.post('/api/transcribe', express.raw({ type: ['audio/*', 'application/octet-stream'], limit: '25mb' }), async (req: Request, res: Response) => {
+  if (!sttEngine) {
+    res.status(503).json({ error: 'No speech recognition engine is configured (MCP_VOICE_HOOKS_STT_ENGINE)' });
+    return;
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: 'Audio is required' });
+    return;
+  }
+
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+  const mimeType = req.get('content-type') || 'application/octet-stream';
+  let text: string;
+  try {
+    text = (await sttEngine.transcribe(req.body, mimeType, { language })).trim();
+  } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      res.status(415).json({ error: error.message });
+      return;
+    }
+    debugLog(`[STT] ${sttEngine.name} failed: ${error}`);
+    res.status(500).json({ error: `Speech recognition failed: ${error instanceof Error ? error.message : error}` });
+    return;
+  }
+
+  debugLog(`[STT] Transcribed ${req.body.length} bytes of ${mimeType} with ${sttEngine.name}: "${text}"`);
+  if (!text) {
+    // Silence or noise; nothing to queue
+    res.json({ success: true, sessionId: session.id, sessionName: session.name, text });
+    return;
+  }
+
+  res.json({ ...receiveUtterance(text, session, { language }), text });
+});
+
+/**
+ * Runs recognized speech through voice commands, or queues it as an utterance. Input starting
+ * with a spoken "urgent" prefix is queued urgent without the prefix.
+ * @returns The response body shared by typed and transcribed input
+ */
+function receiveUtterance(text: string, session: Session, options: { timestamp?: string; language?: string; urgent?: boolean } = {}) {
+  const interpreted = VOICE_COMMANDS_ENABLED
+    ? voiceCommands.interpret(text, { language: options.language, answering: session.openQuestions > 0 })
+    : { text, urgent: false };
+  if ('command' in interpreted) {
+    return {
+      success: true,
+      sessionId: session.id,
+      sessionName: session.name,
+      command: executeVoiceCommand(interpreted.command, text, session)
+    };
+  }
+
+  const parsedTimestamp = options.timestamp ? new Date(options.timestamp) : undefined;
+  const utterance = session.queue.add(interpreted.text, parsedTimestamp, { urgent: options.urgent || interpreted.urgent });
+
+  return {
     success: true,
+    sessionId: session.id,
+    sessionName: session.name,
     utterance: {
       id: utterance.id,
       text: utterance.text,
       timestamp: utterance.timestamp,
       status: utterance.status,
+      urgent: utterance.urgent,
     },
-  });
-});
+  };
+}
+
+// Carries out a voice command and tells the browser what happened
+function executeVoiceCommand(command: VoiceCommand, text: string, session: Session) {
+  let message: string;
+
+  switch (command) {
+    case 'scratch': {
+      const retracted = session.queue.removeLastPending();
+      message = retracted ? `Retracted "${retracted.text}"` : 'Nothing to retract';
+      break;
+    }
+    case 'interrupt':
+      session.interruptRequested = true;
+      message = 'Claude will be interrupted before its next tool';
+      break;
+    case 'clear': {
+      const cleared = session.queue.clearPending();
+      message = `Cleared ${cleared.length} pending utterance(s)`;
+      break;
+    }
+    case 'repeat':
+      if (session.lastSpokenText) {
+        speakToBrowsers(session.lastSpokenText, session);
+        message = 'Repeating the last response';
+      } else {
+        message = 'Nothing to repeat';
+      }
+      break;
+  }
+
+  debugLog(`[Commands] "${text.trim()}" -> ${command}: ${message} [session: ${session.name}]`);
+  const result = { command, text: text.trim(), message, timestamp: new Date() };
+  broadcast({ type: 'voiceCommand', ...result, sessionId: session.id });
+  return result;
+}
 
 app.get('/api/utterances', (req: Request, res: Response) => {
   const limit = parseInt(req.query.limit as string) || 10;
-  
-  const recentUtterances = queue.getRecent(limit);
+  const status = req.query.status as UtteranceStatus | undefined;
+  if (status !== undefined && !['pending', 'delivered', 'responded'].includes(status)) {
+    res.status(400).json({ error: 'status must be one of pending, delivered, responded' });
+    return;
+  }
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const recentUtterances = status
+    ? session.queue.getRecent(session.queue.utterances.length).filter(u => u.status === status).slice(0, limit)
+    : session.queue.getRecent(limit);
+  const responses = responsesByLastUtterance(session.queue.responses, session.queue.utterances);
 
   res.json({
+    sessionId: session.id,
     utterances: recentUtterances.map(u => ({
       id: u.id,
       text: u.text,
       timestamp: u.timestamp,
       status: u.status,
+      urgent: u.urgent,
+      response: responses.get(u.id)?.text,
+      responseId: responses.get(u.id)?.id,
     })),
   });
 });
 
-app.get('/api/utterances/status', (_req: Request, res: Response) => {
-  const total = queue.utterances.length;
-  const pending = queue.utterances.filter(u => u.status === 'pending').length;
-  const delivered = queue.utterances.filter(u => u.status === 'delivered').length;
+// A response answering several utterances is shown once, after the last of them
+function responsesByLastUtterance(responses: AssistantResponse[], utterances: Utterance[]): Map<string, AssistantResponse> {
+  const timestamps = new Map(utterances.map(u => [u.id, u.timestamp.getTime()]));
+  const byUtterance = new Map<string, AssistantResponse>();
+  responses.forEach(response => {
+    const last = response.utteranceIds
+      .filter(id => timestamps.has(id))
+      .sort((a, b) => timestamps.get(a)! - timestamps.get(b)!)
+      .pop();
+    if (last) {
+      byUtterance.set(last, response);
+    }
+  });
+  return byUtterance;
+}
+
+// Conversation history as a document (md, json, srt or txt), across all sessions unless one
+// is named, optionally limited to a date range
+app.get('/api/conversation/export', (req: Request, res: Response) => {
+  const format = req.query.format ?? 'md';
+  if (!isExportFormat(format)) {
+    res.status(400).json({ error: 'format must be one of md, json, srt, txt' });
+    return;
+  }
+
+  const range: { from?: Date; to?: Date } = {};
+  for (const bound of ['from', 'to'] as const) {
+    const value = req.query[bound];
+    if (value === undefined) {
+      continue;
+    }
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      res.status(400).json({ error: `Invalid ${bound} date: ${value}` });
+      return;
+    }
+    range[bound] = date;
+  }
+
+  const sessionId = req.query.sessionId as string | undefined;
+  const selected = sessionId ? sessions.get(sessionId) : undefined;
+  if (sessionId && !selected) {
+    res.status(404).json({ error: `Unknown session: ${sessionId}` });
+    return;
+  }
+
+  const transcript = exportTranscript(
+    (selected ? [selected] : sessions.list()).map(session => ({
+      id: session.id,
+      name: session.name,
+      entries: session.queue.getConversation()
+    })),
+    format,
+    range
+  );
+  res.type(transcript.contentType).send(transcript.body);
+});
+
+// Utterances and spoken responses in order, so the transcript survives page reloads
+app.get('/api/conversation', (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 50;
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  res.json({
+    sessionId: session.id,
+    entries: session.queue.getConversation(limit)
+  });
+});
+
+app.get('/api/utterances/status', (req: Request, res: Response) => {
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+  const { total, pending, delivered, responded } = session.queue.getStatusCounts();
 
   res.json({
     total,
     pending,
     delivered,
+    responded,
   });
 });
 
+// Per-request state for handlers that deliver utterances to a caller
+interface RequestContext {
+  session: Session;
+  // Aborted when the caller disconnects before we respond
+  signal: AbortSignal;
+  // Utterances marked delivered while handling this request
+  deliveredIds: string[];
+}
+
+// Ties a request to its connection. If the client goes away (e.g. the hook's curl was
+// killed when the user pressed Esc) any wait is cancelled and utterances delivered for
+// this request go back to pending, since nobody received them.
+function createRequestContext(res: Response, session: Session): RequestContext {
+  const controller = new AbortController();
+  const context: RequestContext = { session, signal: controller.signal, deliveredIds: [] };
+
+  res.on('close', () => {
+    if (res.writableFinished) {
+      return;
+    }
+    controller.abort();
+    if (context.deliveredIds.length > 0) {
+      debugLog(`[Request] Caller disconnected, returning ${context.deliveredIds.length} utterance(s) to pending`);
+      context.deliveredIds.forEach(id => session.queue.markPending(id));
+      context.deliveredIds = [];
+    }
+  });
+
+  return context;
+}
+
 // Shared dequeue logic
-function dequeueUtterancesCore() {
+function dequeueUtterancesCore(context: RequestContext) {
+  const queue = context.session.queue;
   const pendingUtterances = queue.utterances.filter(u => u.status === 'pending');
   
   // Mark as delivered
   pendingUtterances.forEach(utterance => {
     queue.markDelivered(utterance.id);
+    context.deliveredIds.push(utterance.id);
   });
 
   return {
@@ -243,13 +743,19 @@ function dequeueUtterancesCore() {
       .map(u => ({
         text: u.text,
         timestamp: u.timestamp,
+        urgent: u.urgent,
       })),
   };
 }
 
 // MCP server integration
-app.post('/api/dequeue-utterances', (_req: Request, res: Response) => {
-  const result = dequeueUtterancesCore();
+app.post('/api/dequeue-utterances', (req: Request, res: Response) => {
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const result = dequeueUtterancesCore(createRequestContext(res, session));
 
   if (!result.success) {
     res.status(400).json(result);
@@ -260,7 +766,9 @@ app.post('/api/dequeue-utterances', (_req: Request, res: Response) => {
 });
 
 // Shared wait for utterance logic
-async function waitForUtteranceCore() {
+async function waitForUtteranceCore(context: RequestContext) {
+  const { session, signal } = context;
+  const queue = session.queue;
   const secondsToWait = WAIT_TIMEOUT_SECONDS;
   const maxWaitMs = secondsToWait * 1000;
   const startTime = Date.now();
@@ -268,12 +776,18 @@ async function waitForUtteranceCore() {
   debugLog(`[WaitCore] Starting wait_for_utterance (${secondsToWait}s)`);
 
   // Notify frontend that wait has started
-  notifyWaitStatus(true);
+  notifyWaitStatus(true, session);
 
   let firstTime = true;
 
-  // Poll for utterances
-  while (Date.now() - startTime < maxWaitMs) {
+  // Sleep until the queue reports new input, the timeout passes, or the caller goes away
+  while (Date.now() - startTime < maxWaitMs && !signal.aborted) {
+    // Let the user finish the sentence before delivering it
+    await queue.waitForCoalescing(COALESCE_MAX_WAIT_MS, signal);
+    if (signal.aborted) {
+      break;
+    }
+
     const pendingUtterances = queue.utterances.filter(u => u.status === 'pending');
 
     if (pendingUtterances.length > 0) {
@@ -284,15 +798,17 @@ async function waitForUtteranceCore() {
       // Mark utterances as delivered
       sortedUtterances.forEach(utterance => {
         queue.markDelivered(utterance.id);
+        context.deliveredIds.push(utterance.id);
       });
 
-      notifyWaitStatus(false); // Notify wait has ended
+      notifyWaitStatus(false, session); // Notify wait has ended
       return {
         success: true,
         utterances: sortedUtterances.map(u => ({
           id: u.id,
           text: u.text,
           timestamp: u.timestamp,
+          urgent: u.urgent,
           status: 'delivered', // They are now delivered
         })),
         count: pendingUtterances.length,
@@ -306,12 +822,23 @@ async function waitForUtteranceCore() {
       await playNotificationSound();
     }
 
-    // Wait 100ms before checking again
-    await new Promise(resolve => setTimeout(resolve, 100));
+    // Another waiter may take the utterances first, so re-check after waking up
+    await queue.waitForPending(maxWaitMs - (Date.now() - startTime), signal);
+  }
+
+  notifyWaitStatus(false, session); // Notify wait has ended
+
+  if (signal.aborted) {
+    debugLog('[WaitCore] Caller disconnected, leaving utterances pending');
+    return {
+      success: true,
+      utterances: [],
+      message: 'Wait cancelled because the caller disconnected.',
+      waitTime: Date.now() - startTime,
+    };
   }
 
   // Timeout reached - no utterances found
-  notifyWaitStatus(false); // Notify wait has ended
   return {
     success: true,
     utterances: [],
@@ -320,9 +847,200 @@ async function waitForUtteranceCore() {
   };
 }
 
+/**
+ * Speaks a question, shows it in the browser and waits for the answer. Input that was
+ * already pending stays queued for the hooks; only what is said after the question counts.
+ * @param options - `choices` the reply is mapped to when it can be; `kind` confirm for
+ * approve/deny questions, or permission for prompts on Claude Code's behalf, which are
+ * not recorded as Claude's response
+ * @returns The answer, or answered: false if none came before the timeout
+ */
+async function askUserCore(
+  context: RequestContext,
+  question: string,
+  options: { choices: string[]; timeoutSeconds: number; kind: QuestionKind }
+) {
+  const { session, signal } = context;
+  const { choices, timeoutSeconds, kind } = options;
+  const queue = session.queue;
+  const id = randomUUID();
+  const earlier = new Set(queue.utterances.filter(u => u.status === 'pending').map(u => u.id));
+  const newPending = () => queue.utterances.filter(u => u.status === 'pending' && !earlier.has(u.id));
+
+  // Until it is answered, spoken commands like "stop" are taken as the answer
+  session.openQuestions++;
+  try {
+    // Input from before the question stays on its own, so the answer can't be merged into it
+    queue.endCoalescing();
+    const prompt = kind === 'confirm' ? 'Approve or deny?' : kind === 'question' && choices.length > 0 ? describeChoices(choices) : '';
+    const spoken = prompt ? `${question} ${prompt}` : question;
+    await (kind === 'permission' ? announce(spoken, session) : speakResponse(spoken, session));
+    broadcast({ type: 'question', id, kind, question, choices, timeoutSeconds, sessionId: session.id });
+    debugLog(`[Ask] Asked "${question}"${choices.length > 0 ? ` with choices: ${choices.join(', ')}` : ''}`);
+
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    let answers = newPending();
+    while (answers.length === 0 && Date.now() < deadline && !signal.aborted) {
+      if (await queue.waitForAdded(deadline - Date.now(), signal)) {
+        // Let the user finish the sentence before taking it as the answer
+        await queue.waitForCoalescing(COALESCE_MAX_WAIT_MS, signal);
+      }
+      answers = newPending();
+    }
+
+    if (answers.length === 0 || signal.aborted) {
+      broadcast({ type: 'questionEnded', id, sessionId: session.id });
+      debugLog(`[Ask] No answer to "${question}"`);
+      return { success: true, answered: false, question, message: `The user did not answer within ${timeoutSeconds} second${timeoutSeconds !== 1 ? 's' : ''}.` };
+    }
+
+    const answer = answers
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(u => u.text)
+      .join(' ');
+    const choice = choices.length > 0 ? matchChoice(answer, choices) : undefined;
+    answers.forEach(u => {
+      queue.markDelivered(u.id);
+      context.deliveredIds.push(u.id);
+    });
+    broadcast({ type: 'questionEnded', id, sessionId: session.id, answer, choice });
+    debugLog(`[Ask] "${question}" answered: "${answer}"${choice ? ` -> ${choice}` : ''}`);
+
+    return { success: true, answered: true, question, answer, choice, utteranceIds: answers.map(u => u.id) };
+  } finally {
+    session.openQuestions--;
+  }
+}
+
+// "Options: A, B or C." read out after the question
+function describeChoices(choices: string[]): string {
+  const list = choices.length > 1
+    ? `${choices.slice(0, -1).join(', ')} or ${choices[choices.length - 1]}`
+    : choices[0];
+  return `Options: ${list}.`;
+}
+
+// Ask the user a question and wait for the spoken answer (the ask_user MCP tool)
+app.post('/api/ask', async (req: Request, res: Response) => {
+  const { question, choices = [], timeoutSeconds = ASK_TIMEOUT_SECONDS } = req.body;
+
+  if (typeof question !== 'string' || !question.trim()) {
+    res.status(400).json({ error: 'Question is required' });
+    return;
+  }
+  if (!Array.isArray(choices) || !choices.every(choice => typeof choice === 'string' && choice.trim())) {
+    res.status(400).json({ error: 'Choices must be an array of non-empty strings' });
+    return;
+  }
+  if (typeof timeoutSeconds !== 'number' || !(timeoutSeconds > 0)) {
+    res.status(400).json({ error: 'timeoutSeconds must be a positive number' });
+    return;
+  }
+
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const context = createRequestContext(res, session);
+  const result = await askUserCore(context, question.trim(), {
+    choices: choices.map((choice: string) => choice.trim()),
+    timeoutSeconds: Math.min(timeoutSeconds, MAX_ASK_TIMEOUT_SECONDS),
+    kind: 'question'
+  });
+  if (result.answered) {
+    // The tool result carries the answer, so it doesn't need a spoken response of its own
+    context.deliveredIds.forEach(id => session.queue.markResponded(id));
+  }
+  res.json(result);
+});
+
+// Ask the user to approve or deny an action (the confirm_action MCP tool). Replies that are
+// neither a clear yes nor a clear no deny it; no reply at all gets CONFIRM_TIMEOUT_DECISION.
+app.post('/api/confirm', async (req: Request, res: Response) => {
+  const { summary, timeoutSeconds = ASK_TIMEOUT_SECONDS } = req.body;
+
+  if (typeof summary !== 'string' || !summary.trim()) {
+    res.status(400).json({ error: 'Summary is required' });
+    return;
+  }
+  if (typeof timeoutSeconds !== 'number' || !(timeoutSeconds > 0)) {
+    res.status(400).json({ error: 'timeoutSeconds must be a positive number' });
+    return;
+  }
+
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const context = createRequestContext(res, session);
+  const result = await askUserCore(context, summary.trim(), {
+    choices: ['Approve', 'Deny'],
+    timeoutSeconds: Math.min(timeoutSeconds, MAX_ASK_TIMEOUT_SECONDS),
+    kind: 'confirm'
+  });
+  if (!result.answered) {
+    debugLog(`[Confirm] Timed out, using the default decision: ${CONFIRM_TIMEOUT_DECISION}`);
+    res.json({ success: true, decision: CONFIRM_TIMEOUT_DECISION, reason: 'timeout' });
+    return;
+  }
+
+  context.deliveredIds.forEach(id => session.queue.markResponded(id));
+  const decision = matchConfirmation(result.answer!);
+  debugLog(`[Confirm] "${summary}" -> ${decision ?? 'unclear, denying'}`);
+  res.json({
+    success: true,
+    decision: decision ?? 'deny',
+    reason: decision ? 'answered' : 'unclear',
+    answer: result.answer
+  });
+});
+
+// Progress narration from set_status, shown in the browser's status bar until Claude speaks or waits
+app.post('/api/status', (req: Request, res: Response) => {
+  const { text, progress, speak = false } = req.body;
+
+  if (typeof text !== 'string' || !text.trim()) {
+    res.status(400).json({ error: 'Text is required' });
+    return;
+  }
+  if (progress !== undefined && (typeof progress !== 'number' || !(progress >= 0 && progress <= 100))) {
+    res.status(400).json({ error: 'progress must be a number from 0 to 100' });
+    return;
+  }
+  if (typeof speak !== 'boolean') {
+    res.status(400).json({ error: 'speak must be a boolean' });
+    return;
+  }
+
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  // Only spoken when voice responses are on, and then by the browser only if nothing else is being said
+  const spoken = speak && voicePreferences.voiceResponsesEnabled;
+  broadcast({
+    type: 'status',
+    text: text.trim(),
+    ...(progress !== undefined ? { progress: Math.round(progress) } : {}),
+    speak: spoken,
+    sessionId: session.id
+  });
+  debugLog(`[Status] ${text.trim()}${progress !== undefined ? ` (${Math.round(progress)}%)` : ''}${spoken ? ', spoken' : ''}`);
+
+  res.json({ success: true, spoken });
+});
+
 // Wait for utterance endpoint
-app.post('/api/wait-for-utterances', async (_req: Request, res: Response) => {
-  const result = await waitForUtteranceCore();
+app.post('/api/wait-for-utterances', async (req: Request, res: Response) => {
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const result = await waitForUtteranceCore(createRequestContext(res, session));
 
   // If error response, return 400 status
   if (!result.success) {
@@ -335,8 +1053,13 @@ app.post('/api/wait-for-utterances', async (_req: Request, res: Response) => {
 
 
 // API for pre-tool hook to check for pending utterances
-app.get('/api/has-pending-utterances', (_req: Request, res: Response) => {
-  const pendingUtterances = queue.utterances.filter(u => u.status === 'pending');
+app.get('/api/has-pending-utterances', (req: Request, res: Response) => {
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const pendingUtterances = session.queue.utterances.filter(u => u.status === 'pending');
   const pendingCount = pendingUtterances.length;
   const hasPending = pendingCount > 0;
 
@@ -356,6 +1079,12 @@ app.post('/api/validate-action', (req: Request, res: Response) => {
     return;
   }
 
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+  const queue = session.queue;
+
   // Check for pending utterances
   const pendingUtterances = queue.utterances.filter(u => u.status === 'pending');
   if (pendingUtterances.length > 0) {
@@ -400,213 +1129,298 @@ app.post('/api/validate-action', (req: Request, res: Response) => {
   });
 });
 
-// Unified hook handler
-function handleHookRequest(attemptedAction: 'tool' | 'speak' | 'wait' | 'stop' | 'post-tool'): { decision: 'approve' | 'block', reason?: string } | Promise<{ decision: 'approve' | 'block', reason?: string }> {
-  const voiceResponsesEnabled = voicePreferences.voiceResponsesEnabled;
-  const voiceInputActive = voicePreferences.voiceInputActive;
+type HookResponse = { decision: 'approve' | 'block', reason?: string };
 
-  // 1. Check for pending utterances
+// Unified hook handler - the active policy decides, this function carries out the effect
+function handleHookRequest(attemptedAction: HookAction, payload: HookPayload, context: RequestContext): HookResponse | Promise<HookResponse> {
+  const session = context.session;
+  const queue = session.queue;
   const pendingUtterances = queue.utterances.filter(u => u.status === 'pending');
-  if (pendingUtterances.length > 0) {
-    if (AUTO_DELIVER_VOICE_INPUT) {
-      // Auto mode: check if we should auto-deliver
-      if (attemptedAction === 'tool' && !AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS) {
-        // Skip auto-delivery for tools when disabled
-      } else {
-        // Auto-dequeue for non-tool actions, or for tools when enabled
-        const dequeueResult = dequeueUtterancesCore();
+  const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
+  const spokeAfterTools = !session.lastToolUseTimestamp ||
+    (!!session.lastSpeakTimestamp && session.lastSpeakTimestamp >= session.lastToolUseTimestamp);
+
+  const rule = evaluatePolicy(activePolicy, {
+    action: attemptedAction,
+    toolName: payload.toolName,
+    projectPath: session.projectPath,
+    hasPending: pendingUtterances.length > 0,
+    hasUrgent: pendingUtterances.some(u => u.urgent),
+    hasDelivered: deliveredUtterances.length > 0,
+    voiceResponsesEnabled: voicePreferences.voiceResponsesEnabled,
+    voiceInputActive: voicePreferences.voiceInputActive,
+    autoDeliver: AUTO_DELIVER_VOICE_INPUT,
+    autoDeliverBeforeTools: attemptedAction === 'tool' && AUTO_DELIVER_TOOLS.matches(payload.toolName),
+    spokeAfterTools,
+    speakReminderIgnored: payload.stopHookActive && session.stopBlockedForSpeech,
+    stopHookActive: payload.stopHookActive,
+    interruptRequested: session.interruptRequested,
+    toolsSinceSpeak: session.toolsSinceSpeak,
+    secondsSinceSpeak: (Date.now() - (session.lastSpeakTimestamp ?? session.createdAt).getTime()) / 1000
+  });
+  debugLog(`[Policy] ${attemptedAction}${payload.toolName ? ` (${payload.toolName})` : ''} -> ${rule.then} [rule: ${rule.name ?? 'unnamed'}]`);
 
-        if (dequeueResult.success && dequeueResult.utterances && dequeueResult.utterances.length > 0) {
-          // Reverse to show oldest first
-          const reversedUtterances = dequeueResult.utterances.reverse();
+  // Remember whether this stop was blocked only to ask for speech, so a repeat within the
+  // same stop-hook continuation can be let through instead of looping forever
+  if (attemptedAction === 'stop') {
+    // The turn is ending anyway, so a pending interrupt has nothing left to stop
+    session.interruptRequested = false;
+    if (payload.stopHookActive && session.stopBlockedForSpeech && rule.then !== 'speak-after-tools') {
+      debugLog('[Stop Hook] Speak reminder already sent during this stop-hook continuation, not repeating it');
+    }
+    session.stopBlockedForSpeech = rule.then === 'speak-after-tools';
+  }
 
-          return {
-            decision: 'block',
-            reason: formatVoiceUtterances(reversedUtterances)
-          };
-        }
-      }
-    } else {
-      // Manual mode: always block and tell assistant to use dequeue_utterances tool
+  switch (rule.then) {
+    case 'interrupt':
+      session.interruptRequested = false;
       return {
         decision: 'block',
-        reason: `${pendingUtterances.length} pending utterance(s) available. Use the dequeue_utterances tool to retrieve them.`
+        reason: rule.reason ?? 'The user asked you to stop. Do not continue with this tool; use the speak tool to briefly say what you were about to do and wait for further instructions.'
       };
-    }
-  }
 
-  // 2. Check for delivered utterances (when voice enabled)
-  if (voiceResponsesEnabled) {
-    const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
-    if (deliveredUtterances.length > 0) {
-      // Only allow speak to proceed
-      if (attemptedAction === 'speak') {
-        return { decision: 'approve' };
-      }
+    case 'deliver':
+      return deliverPendingUtterances(context, rule.reason);
+
+    case 'request-dequeue':
+      // Manual mode: tell assistant to use dequeue_utterances tool
       return {
         decision: 'block',
-        reason: `${deliveredUtterances.length} delivered utterance(s) require voice response. Please use the speak tool to respond before proceeding.`
+        reason: rule.reason ?? `${pendingUtterances.length} pending utterance(s) available. Use the dequeue_utterances tool to retrieve them.`
       };
-    }
-  }
 
-  // 3. Handle tool and post-tool actions
-  if (attemptedAction === 'tool' || attemptedAction === 'post-tool') {
-    lastToolUseTimestamp = new Date();
-    return { decision: 'approve' };
-  }
+    case 'require-speak':
+      return {
+        decision: 'block',
+        reason: rule.reason ?? `${deliveredUtterances.length} delivered utterance(s) require voice response. Please use the speak tool to respond before proceeding.`
+      };
 
-  // 4. Handle wait for utterance
-  if (attemptedAction === 'wait') {
-    if (voiceResponsesEnabled && lastToolUseTimestamp &&
-      (!lastSpeakTimestamp || lastSpeakTimestamp < lastToolUseTimestamp)) {
+    case 'speak-after-tools':
       return {
         decision: 'block',
-        reason: 'Assistant must speak after using tools. Please use the speak tool to respond before waiting for utterances.'
+        reason: rule.reason ?? 'Assistant must speak after using tools. Please use the speak tool to respond before proceeding.'
       };
-    }
+
+    case 'request-wait':
+      // Manual mode: tell assistant to use wait_for_utterance tool
+      return {
+        decision: 'block',
+        reason: rule.reason ?? 'Assistant tried to end its response, but voice input is active. Stopping is not allowed without first checking for voice input. Assistant should now use wait_for_utterance to check for voice input'
+      };
+
+    case 'block':
+      return {
+        decision: 'block',
+        reason: rule.reason ?? `Blocked by voice hooks policy rule "${rule.name ?? 'unnamed'}".`
+      };
+
+    case 'wait':
+      return autoWaitForUtterances(context);
+
+    case 'approve':
+      if (attemptedAction === 'tool' || attemptedAction === 'post-tool') {
+        session.lastToolUseTimestamp = new Date();
+      }
+      if (countsAsToolUse(attemptedAction)) {
+        session.toolsSinceSpeak++;
+      }
+      return rule.reason ? { decision: 'approve', reason: rule.reason } : { decision: 'approve' };
+  }
+}
+
+// Hands pending voice input to the assistant once the user has finished speaking
+async function deliverPendingUtterances(context: RequestContext, reason?: string): Promise<HookResponse> {
+  await context.session.queue.waitForCoalescing(COALESCE_MAX_WAIT_MS, context.signal);
+  if (context.signal.aborted) {
+    // Nobody is left to receive them; keep them pending for the next hook
     return { decision: 'approve' };
   }
 
-  // 5. Handle speak
-  if (attemptedAction === 'speak') {
+  const dequeueResult = dequeueUtterancesCore(context);
+  if (dequeueResult.utterances.length === 0) {
     return { decision: 'approve' };
   }
+  // Reverse to show oldest first
+  const reversedUtterances = dequeueResult.utterances.reverse();
+  return {
+    decision: 'block',
+    reason: reason ?? formatVoiceUtterances(reversedUtterances)
+  };
+}
 
-  // 6. Handle stop
-  if (attemptedAction === 'stop') {
-    // Check if must speak after tool use
-    if (voiceResponsesEnabled && lastToolUseTimestamp &&
-      (!lastSpeakTimestamp || lastSpeakTimestamp < lastToolUseTimestamp)) {
+// Waits for voice input on behalf of the assistant (stop hook in auto-deliver mode)
+async function autoWaitForUtterances(context: RequestContext): Promise<HookResponse> {
+  try {
+    debugLog(`[Stop Hook] Auto-calling wait_for_utterance...`);
+    const data = await waitForUtteranceCore(context);
+    debugLog(`[Stop Hook] wait_for_utterance response: ${JSON.stringify(data)}`);
+
+    // If no utterances found, approve stop
+    if (!data.success) {
       return {
-        decision: 'block',
-        reason: 'Assistant must speak after using tools. Please use the speak tool to respond before proceeding.'
+        decision: 'approve',
+        reason: 'No utterances found during wait'
       };
     }
 
-    // Always check if should wait for utterances (voice or keyboard input)
-    if (true) {
-      if (AUTO_DELIVER_VOICE_INPUT) {
-        // Auto-wait for utterances
-        return (async () => {
-          try {
-            debugLog(`[Stop Hook] Auto-calling wait_for_utterance...`);
-            const data = await waitForUtteranceCore();
-            debugLog(`[Stop Hook] wait_for_utterance response: ${JSON.stringify(data)}`);
-
-            // If no utterances found, approve stop
-            if (!data.success) {
-              return {
-                decision: 'approve' as const,
-                reason: 'No utterances found during wait'
-              };
-            }
-
-            // If utterances were found, block and return them
-            if (data.utterances && data.utterances.length > 0) {
-              return {
-                decision: 'block' as const,
-                reason: formatVoiceUtterances(data.utterances)
-              };
-            }
-
-            // If no utterances found (including when voice was deactivated), approve stop
-            return {
-              decision: 'approve' as const,
-              reason: data.message || 'No utterances found during wait'
-            };
-          } catch (error) {
-            debugLog(`[Stop Hook] Error calling wait_for_utterance: ${error}`);
-            // In auto-deliver mode, fail open on errors
-            return {
-              decision: 'approve' as const,
-              reason: 'Auto-wait encountered an error, proceeding'
-            };
-          }
-        })();
-      } else {
-        // Manual mode: block and tell assistant to use wait_for_utterance tool
-        return {
-          decision: 'block',
-          reason: 'Assistant tried to end its response, but voice input is active. Stopping is not allowed without first checking for voice input. Assistant should now use wait_for_utterance to check for voice input'
-        };
-      }
+    // If utterances were found, block and return them
+    if (data.utterances && data.utterances.length > 0) {
+      return {
+        decision: 'block',
+        reason: formatVoiceUtterances(data.utterances)
+      };
     }
 
+    // If no utterances found (including when voice was deactivated), approve stop
     return {
       decision: 'approve',
-      reason: 'No utterances since last timeout'
+      reason: data.message || 'No utterances found during wait'
+    };
+  } catch (error) {
+    debugLog(`[Stop Hook] Error calling wait_for_utterance: ${error}`);
+    // In auto-deliver mode, fail open on errors
+    return {
+      decision: 'approve',
+      reason: 'Auto-wait encountered an error, proceeding'
     };
   }
-
-  // Default to approve (shouldn't reach here)
-  return { decision: 'approve' };
 }
 
+// Active hook policy (inspect via GET /api/policy)
+app.get('/api/policy', (_req: Request, res: Response) => {
+  res.json({
+    source: activePolicySource,
+    policy: activePolicy
+  });
+});
+
 
 // Dedicated hook endpoints that return in Claude's expected format
-app.post('/api/hooks/pre-tool', (req: Request, res: Response) => {
+app.post('/api/hooks/pre-tool', async (req: Request, res: Response) => {
+  const payload = parseHookPayload(req.body);
+  const session = sessionForHook(payload);
+  debugLog(`[Pre-tool Hook] ${payload.toolName ?? 'unknown tool'} [session: ${session.name}]`);
+
   // End wait status when starting new tool
-  notifyWaitStatus(false);
+  notifyWaitStatus(false, session);
   
-  const result = handleHookRequest('tool');
+  const result = await handleHookRequest('tool', payload, createRequestContext(res, session));
   res.json(result);
 });
 
 app.post('/api/hooks/stop', async (req: Request, res: Response) => {
+  const payload = parseHookPayload(req.body);
+  const session = sessionForHook(payload);
+
   // End wait status when stopping
-  notifyWaitStatus(false);
+  notifyWaitStatus(false, session);
   
-  const result = await handleHookRequest('stop');
+  const result = await handleHookRequest('stop', payload, createRequestContext(res, session));
   res.json(result);
 });
 
 // Pre-speak hook endpoint
 app.post('/api/hooks/pre-speak', async (req: Request, res: Response) => {
-  const result = handleHookRequest('speak');
+  const payload = parseHookPayload(req.body);
+  const result = await handleHookRequest('speak', payload, createRequestContext(res, sessionForHook(payload)));
   res.json(result);
 });
 
 // Pre-wait hook endpoint
-app.post('/api/hooks/pre-wait', (req: Request, res: Response) => {
-  const result = handleHookRequest('wait');
+app.post('/api/hooks/pre-wait', async (req: Request, res: Response) => {
+  const payload = parseHookPayload(req.body);
+  const result = await handleHookRequest('wait', payload, createRequestContext(res, sessionForHook(payload)));
   res.json(result);
 });
 
 // Post-tool hook endpoint
-app.post('/api/hooks/post-tool', (req: Request, res: Response) => {
-  const result = handleHookRequest('post-tool');
+app.post('/api/hooks/post-tool', async (req: Request, res: Response) => {
+  const payload = parseHookPayload(req.body);
+  const result = await handleHookRequest('post-tool', payload, createRequestContext(res, sessionForHook(payload)));
+  res.json(result);
+});
+
+type PermissionResponse = HookResponse | Record<string, never>;
+
+// Answers a permission prompt by voice. An empty response leaves the decision to Claude Code's own prompt.
+async function handlePermissionRequest(payload: HookPayload, context: RequestContext): Promise<PermissionResponse> {
+  const tool = payload.toolName;
+  if (tool && PERMISSION_DENY_TOOLS.matches(tool)) {
+    return { decision: 'block', reason: `${tool} is blocked by the voice hooks deny list (MCP_VOICE_HOOKS_PERMISSION_DENY_TOOLS).` };
+  }
+  if (tool && PERMISSION_ALLOW_TOOLS.matches(tool)) {
+    return { decision: 'approve', reason: `${tool} is allowed by the voice hooks allow list.` };
+  }
+  if (!tool || !PERMISSION_ASK_TOOLS.matches(tool) || !voicePreferences.voiceInputActive) {
+    return {};
+  }
+
+  const summary = describeToolInput(payload);
+  const result = await askUserCore(context, `Claude wants to run ${tool}${summary ? `: ${summary}` : ''}. Allow?`, {
+    choices: ['Allow', 'Deny'],
+    timeoutSeconds: PERMISSION_TIMEOUT_SECONDS,
+    kind: 'permission'
+  });
+  if (!result.answered) {
+    debugLog(`[Permission] No answer for ${tool}, falling back to the permission prompt`);
+    return {};
+  }
+
+  context.deliveredIds.forEach(id => context.session.queue.markResponded(id));
+  const decision = matchConfirmation(result.answer!);
+  debugLog(`[Permission] ${tool}: "${result.answer}" -> ${decision ?? 'unclear, falling back to the permission prompt'}`);
+  if (decision === 'approve') {
+    return { decision: 'approve', reason: `The user allowed this ${tool} call by voice.` };
+  }
+  if (decision === 'deny') {
+    return {
+      decision: 'block',
+      reason: `The user denied this ${tool} call by voice ("${result.answer}"). Do not retry it; ask what they would like instead.`
+    };
+  }
+  return {};
+}
+
+app.post('/api/hooks/permission', async (req: Request, res: Response) => {
+  const payload = parseHookPayload(req.body);
+  const result = await handlePermissionRequest(payload, createRequestContext(res, sessionForHook(payload)));
   res.json(result);
 });
 
 // Post-speak hook endpoint
 app.post('/api/hooks/post-speak', async (req: Request, res: Response) => {
-  // Get the spoken text from the request
-  const text = req.body?.text ?? req.body?.message ?? '';
+  const payload = parseHookPayload(req.body);
+  const session = sessionForHook(payload);
+  const queue = session.queue;
+  const context = createRequestContext(res, session);
+
+  // This hook runs after the speak tool (PostToolUse), which has already announced the text and
+  // linked it to the utterances it answers, so only manual calls pass text here
+  const spokenText = req.body?.text ?? req.body?.message ?? '';
+  const text = typeof spokenText === 'string' ? spokenText : '';
   
-  // Notify browser clients about the spoken text
+  // Mark the remaining delivered utterances as responded. The response itself is recorded by
+  // speakResponse, once, whether it comes from the speak tool or a manual call.
+  let respondedCount: number;
   if (text) {
-    notifyTTSClients(text);
+    respondedCount = await speakResponse(text, session);
     debugLog(`[Post-speak] Notified frontend about spoken text: "${text}"`);
+  } else {
+    const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
+    deliveredUtterances.forEach(u => {
+      queue.markResponded(u.id);
+    });
+    respondedCount = deliveredUtterances.length;
+    session.lastSpeakTimestamp = new Date();
+    session.toolsSinceSpeak = 0;
   }
   
-  // Mark all delivered utterances as responded
-  const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
-  
-  // Mark all as responded
-  deliveredUtterances.forEach(u => {
-    u.status = 'responded';
-    debugLog(`[Queue] marked as responded: "${u.text}"	[id: ${u.id}]`);
-  });
-
-  lastSpeakTimestamp = new Date();
-  
-  debugLog(`[Post-speak] Marked ${deliveredUtterances.length} utterance(s) as responded. Ready for new voice input.`);
+  debugLog(`[Post-speak] Marked ${respondedCount} utterance(s) as responded. Ready for new voice input.`);
   
   // Wait for utterances and block until we get something or timeout
   try {
     debugLog(`[Post-speak] Starting wait for utterances...`);
-    const result = await waitForUtteranceCore();
+    const result = await waitForUtteranceCore(context);
     debugLog(`[Post-speak] Wait for utterances completed: ${JSON.stringify(result)}`);
     
     // If we got utterances, we can approve and continue
@@ -623,14 +1437,94 @@ app.post('/api/hooks/post-speak', async (req: Request, res: Response) => {
   // If no utterances or error, still approve but note the timeout
   return res.json({
     decision: 'approve',
-    reason: `Marked ${deliveredUtterances.length} utterance(s) as responded. Wait for voice input timed out.`
+    reason: `Marked ${respondedCount} utterance(s) as responded. Wait for voice input timed out.`
   });
 });
 
+// Finds the session holding an utterance (or the one the caller named)
+function sessionForUtterance(req: Request, res: Response, id: string): Session | undefined {
+  if (req.body?.sessionId || req.query.sessionId) {
+    return sessionForRequest(req, res);
+  }
+  const session = sessions.list().find(s => s.queue.utterances.some(u => u.id === id));
+  if (!session) {
+    res.status(404).json({ error: 'Utterance not found' });
+  }
+  return session;
+}
+
+// Maps queue edit failures to HTTP errors
+function sendUtteranceEditError(res: Response, error: unknown) {
+  if (error instanceof UtteranceEditError) {
+    const status = error.code === 'not-found' ? 404 : error.code === 'not-pending' ? 409 : 400;
+    res.status(status).json({ error: error.message });
+    return;
+  }
+  throw error;
+}
+
+// API to correct the text of a pending utterance
+app.patch('/api/utterances/:id', (req: Request, res: Response) => {
+  const id = req.params.id;
+  const session = sessionForUtterance(req, res, id);
+  if (!session) {
+    return;
+  }
+
+  try {
+    const utterance = session.queue.updateText(id, req.body?.text);
+    res.json({ success: true, utterance });
+  } catch (error) {
+    sendUtteranceEditError(res, error);
+  }
+});
+
+// API to retract a pending utterance
+app.delete('/api/utterances/:id', (req: Request, res: Response) => {
+  const id = req.params.id;
+  const session = sessionForUtterance(req, res, id);
+  if (!session) {
+    return;
+  }
+
+  try {
+    const utterance = session.queue.retract(id);
+    res.json({ success: true, utterance });
+  } catch (error) {
+    sendUtteranceEditError(res, error);
+  }
+});
+
+// API to combine consecutive pending utterances into one
+app.post('/api/utterances/merge', (req: Request, res: Response) => {
+  const { ids } = req.body ?? {};
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    res.status(400).json({ error: 'ids must be an array of utterance ids' });
+    return;
+  }
+
+  const session = sessionForUtterance(req, res, ids[0]);
+  if (!session) {
+    return;
+  }
+
+  try {
+    const utterance = session.queue.merge(ids);
+    res.json({ success: true, utterance });
+  } catch (error) {
+    sendUtteranceEditError(res, error);
+  }
+});
+
 // API to clear all utterances
-app.delete('/api/utterances', (_req: Request, res: Response) => {
-  const clearedCount = queue.utterances.length;
-  queue.clear();
+app.delete('/api/utterances', (req: Request, res: Response) => {
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
+  const clearedCount = session.queue.utterances.length;
+  session.queue.clear();
 
   res.json({
     success: true,
@@ -647,7 +1541,32 @@ app.delete('/api/utterances', (_req: Request, res: Response) => {
 // Server-Sent Events for TTS notifications
 const ttsClients = new Set<Response>();
 
-app.get('/api/tts-events', (_req: Request, res: Response) => {
+// Recent broadcast events, replayed to browsers that reconnect after missing some.
+// Ids start at the boot time so ids a browser kept from before a restart are all older.
+const eventLog = new EventLog<ServerMessage>(EVENT_BUFFER_SIZE, Date.now());
+
+// Idle streams get a comment line now and then so proxies don't close them
+const SSE_HEARTBEAT_MS = 15000;
+setInterval(() => {
+  ttsClients.forEach(client => {
+    client.write(': heartbeat\n\n');
+  });
+}, SSE_HEARTBEAT_MS).unref();
+
+// Events without an id are not replayed, so they leave the browser's last event id alone
+function sseFrame(eventId: number | undefined, message: ServerMessage, replayed?: boolean): string {
+  const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+  return `${idLine}data: ${encodeServerMessage(message, { eventId, replayed })}\n\n`;
+}
+
+// Id of the last event a reconnecting browser received: EventSource sends the Last-Event-ID
+// header on its own reconnects, and new connections can pass ?lastEventId=
+function lastEventIdFrom(header: string | undefined, query: unknown): number | undefined {
+  const value = header ?? (typeof query === 'string' ? query : undefined);
+  return value !== undefined && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+app.get('/api/tts-events', (req: Request, res: Response) => {
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
@@ -655,7 +1574,14 @@ app.get('/api/tts-events', (_req: Request, res: Response) => {
   });
 
   // Send initial connection message
-  res.write('data: {"type":"connected"}\n\n');
+  res.write(`data: ${encodeServerMessage({ type: 'hello', version: PROTOCOL_VERSION })}\n\n`);
+
+  const lastEventId = lastEventIdFrom(req.get('Last-Event-ID'), req.query.lastEventId);
+  if (lastEventId !== undefined) {
+    const missed = eventLog.since(lastEventId);
+    debugLog(`[SSE] Browser reconnected after event ${lastEventId}, replaying ${missed.length} event(s)`);
+    missed.forEach(({ id, event }) => res.write(sseFrame(id, event, true)));
+  }
 
   // Add client to set
   ttsClients.add(res);
@@ -663,69 +1589,136 @@ app.get('/api/tts-events', (_req: Request, res: Response) => {
   // Remove client on disconnect
   res.on('close', () => {
     ttsClients.delete(res);
-    
-    // If no clients remain, disable voice features
-    if (ttsClients.size === 0) {
-      debugLog('[SSE] Last browser disconnected, disabling voice features');
-      if (voicePreferences.voiceInputActive || voicePreferences.voiceResponsesEnabled) {
-        debugLog(`[SSE] Voice features disabled - Input: ${voicePreferences.voiceInputActive} -> false, Responses: ${voicePreferences.voiceResponsesEnabled} -> false`);
-        voicePreferences.voiceInputActive = false;
-        voicePreferences.voiceResponsesEnabled = false;
-      }
-    } else {
-      debugLog(`[SSE] Browser disconnected, ${ttsClients.size} client(s) remaining`);
-    }
+    handleBrowserDisconnected('SSE');
   });
 });
 
-// Helper function to notify all connected TTS clients
-function notifyTTSClients(text: string) {
-  const message = JSON.stringify({ 
-    type: 'speak', 
-    text
-  });
-  
-  // Send via SSE
+// Browsers connected over either transport
+function browserCount(): number {
+  return ttsClients.size + (wss ? wss.clients.size : 0);
+}
+
+function hasBrowserClients(): boolean {
+  return browserCount() > 0;
+}
+
+function handleBrowserDisconnected(transport: 'SSE' | 'WebSocket') {
+  // If no clients remain, disable voice features
+  if (browserCount() === 0) {
+    debugLog(`[${transport}] Last browser disconnected, disabling voice features`);
+    if (voicePreferences.voiceInputActive || voicePreferences.voiceResponsesEnabled) {
+      debugLog(`[${transport}] Voice features disabled - Input: ${voicePreferences.voiceInputActive} -> false, Responses: ${voicePreferences.voiceResponsesEnabled} -> false`);
+      voicePreferences.voiceInputActive = false;
+      voicePreferences.voiceResponsesEnabled = false;
+      resourceSubscriptions.changed(PREFERENCES_RESOURCE);
+    }
+  } else {
+    debugLog(`[${transport}] Browser disconnected, ${browserCount()} client(s) remaining`);
+  }
+}
+
+// Sends an event to every browser. Browsers hold either a WebSocket or, as a fallback,
+// an SSE stream, so each receives it once.
+function broadcast(message: ServerMessage) {
+  const eventId = isReplayed(message) ? eventLog.append(message) : undefined;
+  const frame = sseFrame(eventId, message);
   ttsClients.forEach(client => {
-    client.write(`data: ${message}\n\n`);
+    client.write(frame);
   });
-  
-  // Send via WebSocket
-  if (wss) {
-    wss.clients.forEach(ws => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(message);
-      }
-    });
+  const data = encodeServerMessage(message, { eventId });
+  wss?.clients.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(data);
+    }
+  });
+}
+
+// Sends speak text to browsers, with a server-rendered audio URL when enabled.
+// Browsers fall back to their own speech synthesis when the URL is missing or fails to play.
+async function speakToBrowsers(text: string, session: Session): Promise<void> {
+  let audioUrl: string | undefined;
+  if (SERVER_TTS && audioCache.available) {
+    try {
+      audioUrl = `/api/audio/${await audioCache.render(text)}`;
+    } catch (error) {
+      debugLog(`[Audio] Failed to render speech with ${ttsEngine.name}: ${error}`);
+    }
   }
+  notifyTTSClients(text, session, audioUrl);
+}
+
+function notifyTTSClients(text: string, session: Session, audioUrl?: string) {
+  broadcast({
+    type: 'speak',
+    text,
+    audioUrl,
+    sessionId: session.id,
+    sessionName: session.name
+  });
 }
 
+// Let browsers refresh their session picker when sessions appear or change
+sessions.on('changed', (session: Session) => {
+  broadcast({ type: 'sessionUpdate', session: sessionSummary(session) });
+});
+
 // Helper function to notify all connected clients about wait status
-function notifyWaitStatus(isWaiting: boolean) {
-  const message = JSON.stringify({ type: 'waitStatus', isWaiting });
-  ttsClients.forEach(client => {
-    client.write(`data: ${message}\n\n`);
+function notifyUtteranceUpdate(change: 'updated' | 'removed', utterance: Utterance, sessionId: string) {
+  broadcast({
+    type: 'utteranceUpdate',
+    change,
+    sessionId,
+    utterance: { id: utterance.id, text: utterance.text, timestamp: utterance.timestamp, status: utterance.status, urgent: utterance.urgent }
   });
 }
 
+function notifyWaitStatus(isWaiting: boolean, session: Session) {
+  broadcast({ type: 'waitStatus', isWaiting, sessionId: session.id });
+}
+
 
 // Helper function to format voice utterances for display
 function formatVoiceUtterances(utterances: any[]): string {
-  const utteranceTexts = utterances
-    .map(u => `"${u.text}"`)
+  const utteranceTexts = urgentFirst(utterances)
+    .map(formatUtteranceText)
     .join('\n');
+  const urgentNotice = utterances.some(u => u.urgent)
+    ? '\n\nURGENT input is a course correction: address it before continuing with your current plan.'
+    : '';
 
-  return `Assistant received voice input from the user (${utterances.length} utterance${utterances.length !== 1 ? 's' : ''}):\n\n${utteranceTexts}${getVoiceResponseReminder()}`;
+  return `Assistant received voice input from the user (${utterances.length} utterance${utterances.length !== 1 ? 's' : ''}):\n\n${utteranceTexts}${urgentNotice}${getVoiceResponseReminder()}`;
 }
 
-// API for voice preferences
-app.post('/api/voice-preferences', (req: Request, res: Response) => {
-  const { voiceResponsesEnabled } = req.body;
+// Urgent utterances go first, otherwise keeping the given order
+function urgentFirst<T extends { urgent?: boolean }>(utterances: T[]): T[] {
+  return [...utterances.filter(u => u.urgent), ...utterances.filter(u => !u.urgent)];
+}
 
-  // Update preferences
-  voicePreferences.voiceResponsesEnabled = !!voiceResponsesEnabled;
+function formatUtteranceText(utterance: { text: string; urgent?: boolean }): string {
+  return utterance.urgent ? `URGENT: "${utterance.text}"` : `"${utterance.text}"`;
+}
 
+function setVoiceResponsesEnabled(enabled: boolean) {
+  voicePreferences.voiceResponsesEnabled = enabled;
   debugLog(`[Preferences] Updated: voiceResponses=${voicePreferences.voiceResponsesEnabled}`);
+  resourceSubscriptions.changed(PREFERENCES_RESOURCE);
+}
+
+function setVoiceInputActive(active: boolean) {
+  voicePreferences.voiceInputActive = active;
+  debugLog(`[Voice Input] ${voicePreferences.voiceInputActive ? 'Started' : 'Stopped'} listening`);
+  resourceSubscriptions.changed(PREFERENCES_RESOURCE);
+}
+
+// API for voice preferences
+app.get('/api/voice-preferences', (_req: Request, res: Response) => {
+  res.json({
+    preferences: voicePreferences
+  });
+});
+
+app.post('/api/voice-preferences', (req: Request, res: Response) => {
+  setVoiceResponsesEnabled(!!req.body.voiceResponsesEnabled);
 
   res.json({
     success: true,
@@ -735,12 +1728,7 @@ app.post('/api/voice-preferences', (req: Request, res: Response) => {
 
 // API for voice input state
 app.post('/api/voice-input-state', (req: Request, res: Response) => {
-  const { active } = req.body;
-
-  // Update voice input state
-  voicePreferences.voiceInputActive = !!active;
-
-  debugLog(`[Voice Input] ${voicePreferences.voiceInputActive ? 'Started' : 'Stopped'} listening`);
+  setVoiceInputActive(!!req.body.active);
 
   res.json({
     success: true,
@@ -757,27 +1745,20 @@ app.post('/api/speak', async (req: Request, res: Response) => {
     return;
   }
 
+  const session = sessionForRequest(req, res);
+  if (!session) {
+    return;
+  }
+
   debugLog(`[Speak] Voice responses enabled: ${voicePreferences.voiceResponsesEnabled}`);
 
   try {
-    // Notify browser clients
-    notifyTTSClients(text);
-    
-    debugLog(`[Speak] Sent text to browser for TTS: "${text}"`);
-
-    // Mark all delivered utterances as responded
-    const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
-    deliveredUtterances.forEach(u => {
-      u.status = 'responded';
-      debugLog(`[Queue] marked as responded: "${u.text}"\t[id: ${u.id}]`);
-    });
-
-    lastSpeakTimestamp = new Date();
+    const respondedCount = await speakResponse(text, session);
 
     res.json({
       success: true,
       message: 'Text spoken successfully',
-      respondedCount: deliveredUtterances.length
+      respondedCount
     });
   } catch (error) {
     debugLog(`[Speak] Failed to speak text: ${error}`);
@@ -788,20 +1769,74 @@ app.post('/api/speak', async (req: Request, res: Response) => {
   }
 });
 
-// API for system text-to-speech (always uses Mac say command)
+/**
+ * Says something on Claude's behalf: in the browser, or on this machine when no browser is
+ * connected. It is recorded as the response to the delivered utterances, marking them responded.
+ * @returns The number of utterances it responded to
+ */
+async function speakResponse(text: string, session: Session): Promise<number> {
+  const queue = session.queue;
+  await announce(text, session);
+
+  // Record the response against the utterances it answers and mark them as responded
+  const deliveredUtterances = queue.utterances.filter(u => u.status === 'delivered');
+  queue.recordResponse(text, deliveredUtterances.map(u => u.id));
+
+  session.lastSpeakTimestamp = new Date();
+  session.toolsSinceSpeak = 0;
+  session.lastSpokenText = text;
+  return deliveredUtterances.length;
+}
+
+// Speaks text in the browser, or on this machine when no browser is connected
+async function announce(text: string, session: Session): Promise<void> {
+  if (hasBrowserClients()) {
+    await speakToBrowsers(text, session);
+    debugLog(`[Speak] Sent text to browser for TTS: "${text}"`);
+  } else {
+    // Nobody would hear the browser, so speak on this machine instead
+    ttsEngine.speak(text).catch(error => debugLog(`[Speak] ${ttsEngine.name} failed: ${error}`));
+    // Still logged, so a browser that reconnects shows the response in its chat
+    notifyTTSClients(text, session);
+    debugLog(`[Speak] No browser connected, speaking with ${ttsEngine.name}: "${text}"`);
+  }
+}
+
+// Audio rendered for speak events (see MCP_VOICE_HOOKS_SERVER_TTS)
+app.get('/api/audio/:hash', (req: Request, res: Response) => {
+  const audio = audioCache.resolve(req.params.hash);
+  if (!audio) {
+    res.status(404).json({ error: 'Audio not found' });
+    return;
+  }
+
+  // Content-addressed, so it never changes
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.type(audio.contentType);
+  res.sendFile(audio.filePath);
+});
+
+// API for system text-to-speech (uses the configured server-side engine)
+// Speech rates (words per minute) accepted by /api/speak-system
+const MIN_SPEECH_RATE = 50;
+const MAX_SPEECH_RATE = 500;
+
 app.post('/api/speak-system', async (req: Request, res: Response) => {
-  const { text, rate = 150 } = req.body;
+  const { text } = req.body;
+  const rate = req.body.rate === undefined ? 150 : Number(req.body.rate);
 
-  if (!text || !text.trim()) {
+  if (typeof text !== 'string' || !text.trim()) {
     res.status(400).json({ error: 'Text is required' });
     return;
   }
+  if (!Number.isInteger(rate) || rate < MIN_SPEECH_RATE || rate > MAX_SPEECH_RATE) {
+    res.status(400).json({ error: `rate must be a whole number of words per minute between ${MIN_SPEECH_RATE} and ${MAX_SPEECH_RATE}` });
+    return;
+  }
 
   try {
-    // Execute text-to-speech using macOS say command
-    // Note: Mac say command doesn't support volume control
-    await execAsync(`say -r ${rate} "${text.replace(/"/g, '\\"')}"`);
-    debugLog(`[Speak System] Spoke text using macOS say: "${text}" (rate: ${rate})`);
+    await ttsEngine.speak(text, { rate });
+    debugLog(`[Speak System] Spoke text using ${ttsEngine.name}: "${text}" (rate: ${rate})`);
 
     res.json({
       success: true,
@@ -827,21 +1862,83 @@ if (!DISABLE_UI) {
 if (!DISABLE_UI) {
   wss = new WebSocketServer({ server });
   
-  wss.on('connection', (ws) => {
+  wss.on('connection', (ws, req) => {
     debugLog('[WebSocket] Client connected');
-    
-    ws.on('message', (message) => {
+    // Audio being streamed by this client, between audio-start and audio-stop
+    let audioStream: AudioStream | undefined;
+    sendToSocket(ws, { type: 'hello', version: PROTOCOL_VERSION });
+
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const lastEventId = lastEventIdFrom(undefined, query.get('lastEventId') ?? undefined);
+    if (lastEventId !== undefined) {
+      const missed = eventLog.since(lastEventId);
+      debugLog(`[WebSocket] Browser reconnected after event ${lastEventId}, replaying ${missed.length} event(s)`);
+      missed.forEach(({ id, event }) => ws.send(encodeServerMessage(event, { eventId: id, replayed: true })));
+    }
+
+    ws.on('message', async (message, isBinary) => {
+      if (isBinary) {
+        audioStream?.write(message as Buffer);
+        return;
+      }
+
+      let request: ClientMessage;
       try {
-        const data = JSON.parse(message.toString());
-        debugLog('[WebSocket] Received message:', data);
-        // Handle WebSocket messages here if needed
+        request = parseClientMessage(message.toString());
       } catch (error) {
-        debugLog('[WebSocket] Failed to parse message:', error);
+        const id = error instanceof ProtocolError ? error.id : undefined;
+        debugLog('[WebSocket] Rejected message:', error);
+        sendToSocket(ws, { type: 'ack', id, ok: false, error: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+
+      debugLog('[WebSocket] Received message:', request);
+      let result: unknown;
+      switch (request.type) {
+        case 'utterance': {
+          if (!request.text.trim()) {
+            sendToSocket(ws, { type: 'ack', id: request.id, ok: false, error: 'Text is required' });
+            return;
+          }
+          const session = sessions.resolve(request.sessionId || undefined);
+          if (!session) {
+            sendToSocket(ws, { type: 'ack', id: request.id, ok: false, error: `Unknown session: ${request.sessionId}` });
+            return;
+          }
+          result = receiveUtterance(request.text, session, request);
+          break;
+        }
+        case 'voiceInputState':
+          setVoiceInputActive(request.active);
+          result = { voiceInputActive: voicePreferences.voiceInputActive };
+          break;
+        case 'voicePreferences':
+          setVoiceResponsesEnabled(request.voiceResponsesEnabled);
+          result = { preferences: voicePreferences };
+          break;
+        case 'audio-start':
+          audioStream?.end();
+          audioStream = startAudioStream(ws, request);
+          result = { streaming: !!audioStream };
+          break;
+        case 'audio-stop': {
+          const stream = audioStream;
+          audioStream = undefined;
+          await stream?.end();
+          sendToSocket(ws, { type: 'audio-stopped' });
+          break;
+        }
+      }
+
+      if (request.id) {
+        sendToSocket(ws, { type: 'ack', id: request.id, ok: true, result });
       }
     });
     
     ws.on('close', () => {
-      debugLog('[WebSocket] Client disconnected');
+      // Transcripts still in progress are queued even though nobody sees them live
+      audioStream?.end();
+      handleBrowserDisconnected('WebSocket');
     });
     
     ws.on('error', (error) => {
@@ -850,6 +1947,60 @@ if (!DISABLE_UI) {
   });
 }
 
+function sendToSocket(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(encodeServerMessage(message));
+  }
+}
+
+/**
+ * Starts recognizing PCM a client streams as binary frames after an audio-start message.
+ * Interim transcripts go back to that client only; finals are queued like spoken input.
+ */
+function startAudioStream(ws: WebSocket, request: { sampleRate?: number; language?: string; sessionId?: string }): AudioStream | undefined {
+  if (!sttEngine) {
+    sendToSocket(ws, { type: 'audio-error', error: 'No speech recognition engine is configured (MCP_VOICE_HOOKS_STT_ENGINE)' });
+    return undefined;
+  }
+  const session = sessions.resolve(request.sessionId || undefined);
+  if (!session) {
+    sendToSocket(ws, { type: 'audio-error', error: `Unknown session: ${request.sessionId}` });
+    return undefined;
+  }
+
+  const sampleRate = Number(request.sampleRate) || 16000;
+  const language = typeof request.language === 'string' ? request.language : undefined;
+  let stream: AudioStream;
+  try {
+    stream = new AudioStream(sttEngine, {
+      sampleRate,
+      language,
+      threshold: VAD_THRESHOLD,
+      silenceMs: VAD_SILENCE_MS
+    });
+  } catch (error) {
+    sendToSocket(ws, { type: 'audio-error', error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+
+  stream.on('transcript', ({ text, final }: { text: string; final: boolean }) => {
+    if (!final) {
+      sendToSocket(ws, { type: 'transcript', final, text });
+      return;
+    }
+    debugLog(`[STT] Streamed transcript for ${session.id}: "${text}"`);
+    sendToSocket(ws, { type: 'transcript', final, text, ...receiveUtterance(text, session, { language }) });
+  });
+  stream.on('error', error => {
+    debugLog(`[STT] ${sttEngine?.name} failed on streamed audio: ${error}`);
+    sendToSocket(ws, { type: 'audio-error', error: `Speech recognition failed: ${error instanceof Error ? error.message : error}` });
+  });
+
+  debugLog(`[STT] Streaming audio at ${sampleRate} Hz into ${session.id}`);
+  sendToSocket(ws, { type: 'audio-started', sessionId: session.id, sampleRate });
+  return stream;
+}
+
 // Start HTTP server with WebSocket support
 server.listen(HTTP_PORT, async () => {
   const logFn = IS_MCP_MANAGED ? console.error : console.log;
@@ -859,13 +2010,24 @@ server.listen(HTTP_PORT, async () => {
   logFn(`UI ${DISABLE_UI ? 'disabled' : 'enabled'}`);
   
   logFn(`[Auto-deliver] Voice input auto-delivery is ${AUTO_DELIVER_VOICE_INPUT ? 'enabled (tools hidden)' : 'disabled (tools shown)'}`);
-  logFn(`[Pre-tool Hook] Auto-deliver voice input before tools is ${AUTO_DELIVER_VOICE_INPUT_BEFORE_TOOLS ? 'enabled' : 'disabled'}`);
+  logFn(`[Pre-tool Hook] Auto-deliver voice input before tools: ${AUTO_DELIVER_TOOLS.describe()}`);
+  logFn(`[Permission Hook] Ask by voice: ${PERMISSION_ASK_TOOLS.describe()}; allow: ${PERMISSION_ALLOW_TOOLS.describe()}; deny: ${PERMISSION_DENY_TOOLS.describe()}`);
+  const restoredCount = sessions.list().reduce((count, session) => count + session.queue.utterances.length, 0);
+  logFn(`[TTS] Server-side speech engine: ${ttsEngine.name}`);
+  logFn(`[STT] Server-side speech recognition: ${sttEngine ? sttEngine.name : 'none'}`);
+  if (SERVER_TTS) {
+    logFn(`[TTS] Rendering speak audio for browsers ${audioCache.available ? 'enabled' : `unavailable (${ttsEngine.name} cannot render audio)`}`);
+  }
+  if (COALESCE_MS > 0) {
+    logFn(`[Queue] Coalescing utterances within ${COALESCE_MS}ms (hooks wait up to ${COALESCE_MAX_WAIT_MS}ms)`);
+  }
+  logFn(`[Queue] Persistence ${PERSIST_QUEUE ? `enabled (${QUEUE_DIR}, ${restoredCount} utterances restored)` : 'disabled'}`);
 
   // Auto-open browser when UI enabled
   const autoOpenBrowser = process.env.MCP_VOICE_HOOKS_AUTO_OPEN_BROWSER !== 'false'; // Default to true
   if (IS_MCP_MANAGED && autoOpenBrowser && !DISABLE_UI) {
     setTimeout(async () => {
-      if (ttsClients.size === 0) {
+      if (!hasBrowserClients()) {
         debugLog('[Browser] No frontend connected, opening browser...');
         try {
           const open = (await import('open')).default;
@@ -874,7 +2036,7 @@ server.listen(HTTP_PORT, async () => {
           debugLog('[Browser] Failed to open browser:', error);
         }
       } else {
-        debugLog(`[Browser] Frontend already connected (${ttsClients.size} client(s))`)
+        debugLog(`[Browser] Frontend already connected (${browserCount()} client(s))`)
       }
     }, 3000);
   }
@@ -901,10 +2063,15 @@ if (IS_MCP_MANAGED) {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
       },
     }
   );
 
+  // Claude Code starts this server in the session's project directory. Tool calls carry no
+  // session id (only hooks do), so they send the project to find their session.
+  const projectPath = process.cwd();
+
   // Tool handlers
   mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
     const tools = [];
@@ -947,6 +2114,83 @@ if (IS_MCP_MANAGED) {
       },
     });
 
+    tools.push({
+      name: 'set_status',
+      description: 'Show a short note in the browser about what you are doing, e.g. "Running the test suite", while you work through a long series of tools. Use speak for anything the user should respond to.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          text: {
+            type: 'string',
+            description: 'A few words describing the current step',
+          },
+          progress: {
+            type: 'number',
+            minimum: 0,
+            maximum: 100,
+            description: 'Optional completion percentage, shown as a progress bar',
+          },
+          speak: {
+            type: 'boolean',
+            description: 'Also say it out loud, unless something else is being said (default false)',
+          },
+        },
+        required: ['text'],
+      },
+    });
+
+    tools.push({
+      name: 'ask_user',
+      description: 'Ask the user a clarifying question out loud and wait for their answer. Use this instead of speak when you need a reply before continuing.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          question: {
+            type: 'string',
+            description: 'The question to ask',
+          },
+          choices: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional answers to choose from. They are read out after the question, and the reply is mapped to one of them.',
+          },
+          timeoutSeconds: {
+            type: 'number',
+            description: `How long to wait for an answer (default ${ASK_TIMEOUT_SECONDS}, at most ${MAX_ASK_TIMEOUT_SECONDS})`,
+          },
+        },
+        required: ['question'],
+      },
+    });
+
+    tools.push({
+      name: 'confirm_action',
+      description: 'Get a spoken yes/no from the user before a destructive or irreversible action, such as deleting files, force-pushing or dropping data. Only proceed if the decision is approve.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          summary: {
+            type: 'string',
+            description: 'One or two sentences saying what you are about to do, read out to the user',
+          },
+          timeoutSeconds: {
+            type: 'number',
+            description: `How long to wait for a decision (default ${ASK_TIMEOUT_SECONDS}, at most ${MAX_ASK_TIMEOUT_SECONDS})`,
+          },
+        },
+        required: ['summary'],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          decision: { type: 'string', enum: ['approve', 'deny'] },
+          reason: { type: 'string', enum: ['answered', 'unclear', 'timeout'] },
+          answer: { type: 'string', description: 'What the user said' },
+        },
+        required: ['decision', 'reason'],
+      },
+    });
+
     return { tools };
   });
 
@@ -958,7 +2202,7 @@ if (IS_MCP_MANAGED) {
         const response = await fetch(`http://localhost:${HTTP_PORT}/api/dequeue-utterances`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({}),
+          body: JSON.stringify({ projectPath }),
         });
 
         const data = await response.json() as any;
@@ -990,7 +2234,7 @@ if (IS_MCP_MANAGED) {
           content: [
             {
               type: 'text',
-              text: `Dequeued ${data.utterances.length} utterance(s):\n\n${data.utterances.reverse().map((u: any) => `"${u.text}"\t[time: ${new Date(u.timestamp).toISOString()}]`).join('\n')
+              text: `Dequeued ${data.utterances.length} utterance(s):\n\n${urgentFirst(data.utterances.reverse()).map((u: any) => `${formatUtteranceText(u)}\t[time: ${new Date(u.timestamp).toISOString()}]`).join('\n')
                 }${getVoiceResponseReminder()}`,
             },
           ],
@@ -1003,7 +2247,7 @@ if (IS_MCP_MANAGED) {
         const response = await fetch(`http://localhost:${HTTP_PORT}/api/wait-for-utterances`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({}),
+          body: JSON.stringify({ projectPath }),
         });
 
         const data = await response.json() as any;
@@ -1063,7 +2307,7 @@ if (IS_MCP_MANAGED) {
         const response = await fetch(`http://localhost:${HTTP_PORT}/api/speak`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ text }),
+          body: JSON.stringify({ text, projectPath }),
         });
 
         const data = await response.json() as any;
@@ -1090,6 +2334,115 @@ if (IS_MCP_MANAGED) {
         }
       }
 
+      if (name === 'set_status') {
+        const response = await fetch(`http://localhost:${HTTP_PORT}/api/status`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text: args?.text, progress: args?.progress, speak: args?.speak, projectPath }),
+        });
+
+        const data = await response.json() as any;
+
+        if (!response.ok) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${data.error || 'Failed to set the status'}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: '',  // Nothing for Claude to act on
+            },
+          ],
+        };
+      }
+
+      if (name === 'ask_user') {
+        const response = await fetch(`http://localhost:${HTTP_PORT}/api/ask`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ question: args?.question, choices: args?.choices, timeoutSeconds: args?.timeoutSeconds, projectPath }),
+        });
+
+        const data = await response.json() as any;
+
+        if (!response.ok) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${data.error || 'Failed to ask the user'}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (!data.answered) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: data.message,
+              },
+            ],
+          };
+        }
+
+        const choiceText = Array.isArray(args?.choices) && args.choices.length > 0
+          ? `\n${data.choice ? `Choice: ${data.choice}` : 'The answer did not match any of the choices.'}`
+          : '';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `The user answered: "${data.answer}"${choiceText}`,
+            },
+          ],
+        };
+      }
+
+      if (name === 'confirm_action') {
+        const response = await fetch(`http://localhost:${HTTP_PORT}/api/confirm`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ summary: args?.summary, timeoutSeconds: args?.timeoutSeconds, projectPath }),
+        });
+
+        const data = await response.json() as any;
+
+        if (!response.ok) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${data.error || 'Failed to ask for confirmation'}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = { decision: data.decision, reason: data.reason, ...(data.answer ? { answer: data.answer } : {}) };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+
       throw new Error(`Unknown tool: ${name}`);
     } catch (error) {
       return {
@@ -1104,6 +2457,78 @@ if (IS_MCP_MANAGED) {
     }
   });
 
+  // Resource handlers, read through the HTTP API like the tools
+  const resources = [
+    {
+      uri: CONVERSATION_RESOURCE,
+      name: 'Recent voice conversation',
+      description: 'The last 50 utterances and spoken responses, oldest first. Re-read it to recover voice instructions lost to context compaction.',
+      mimeType: 'application/json',
+      path: '/api/conversation?limit=50',
+    },
+    {
+      uri: PENDING_RESOURCE,
+      name: 'Pending utterances',
+      description: 'Voice input not yet delivered to you. Reading it does not mark anything delivered.',
+      mimeType: 'application/json',
+      path: '/api/utterances?status=pending&limit=100',
+    },
+    {
+      uri: PREFERENCES_RESOURCE,
+      name: 'Voice preferences',
+      description: 'Whether the user is listening for spoken responses and whether voice input is active',
+      mimeType: 'application/json',
+      path: '/api/voice-preferences',
+    },
+  ];
+
+  const findResource = (uri: string) => {
+    const resource = resources.find(r => r.uri === uri);
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    return resource;
+  };
+
+  mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: resources.map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType })),
+  }));
+
+  mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const resource = findResource(request.params.uri);
+    const separator = resource.path.includes('?') ? '&' : '?';
+    const response = await fetch(`http://localhost:${HTTP_PORT}${resource.path}${separator}projectPath=${encodeURIComponent(projectPath)}`);
+    const data = await response.json() as any;
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to read ${resource.uri}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  });
+
+  mcpServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.subscribe(findResource(request.params.uri).uri);
+    debugLog(`[MCP] Subscribed to ${request.params.uri}`);
+    return {};
+  });
+
+  mcpServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  resourceSubscriptions.on('updated', (uri: string) => {
+    mcpServer.sendResourceUpdated({ uri }).catch(error => debugLog(`[MCP] Failed to send update for ${uri}: ${error}`));
+  });
+
   // Connect via stdio
   const transport = new StdioServerTransport();
   mcpServer.connect(transport);
@@ -1,40 +1,445 @@
-import { Utterance, UtteranceQueue } from './types.js';
+import { AssistantResponse, ConversationEntry, Utterance, UtteranceQueue, UtteranceStatus, UtteranceStore } from './types.js';
 import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
 import { debugLog } from './debug.js';
 
-export class InMemoryUtteranceQueue implements UtteranceQueue {
+/**
+ * Thrown when the user tries to change an utterance that is gone or already on its way to Claude
+ */
+export class UtteranceEditError extends Error {
+  readonly code: 'not-found' | 'not-pending' | 'invalid';
+
+  constructor(code: UtteranceEditError['code'], message: string) {
+    super(message);
+    this.name = 'UtteranceEditError';
+    this.code = code;
+  }
+}
+
+interface RetentionOptions {
+  // Most answered utterances (and responses) kept in memory
+  maxEntries?: number;
+  // Answered utterances (and responses) older than this are pruned
+  maxAgeMs?: number;
+  // Drop answered utterances and their responses as soon as pruning runs
+  keepOnlyUnresponded?: boolean;
+}
+
+interface QueueOptions {
+  // Utterances arriving within this many ms of the previous one are appended to it (0 disables)
+  coalesceMs?: number;
+  // Limits applied by prune(); pending and delivered utterances are always kept
+  retention?: RetentionOptions;
+}
+
+interface StatusCounts extends Record<UtteranceStatus, number> {
+  total: number;
+}
+
+/**
+ * Emits `added`, `pending`, `delivered`, `responded`, `updated` and `removed` with the affected
+ * utterance, `response` with a recorded response, `cleared` with the number of utterances removed,
+ * and `pruned` with the utterances dropped by retention.
+ */
+export class InMemoryUtteranceQueue extends EventEmitter implements UtteranceQueue {
   public utterances: Utterance[] = [];
+  public responses: AssistantResponse[] = [];
+  private store?: UtteranceStore;
+  private coalesceMs: number;
+  private retention: RetentionOptions;
+  // Kept up to date on every change so status checks don't scan the queue
+  private statusCounts: Record<UtteranceStatus, number> = { pending: 0, delivered: 0, responded: 0 };
+  // The utterance new fragments are appended to while its window is open
+  private coalesceTarget?: { id: string; lastFragmentAt: number };
+
+  constructor(store?: UtteranceStore, options: QueueOptions = {}) {
+    super();
+    // Every hook request waiting for voice input holds one listener
+    this.setMaxListeners(0);
+    this.store = store;
+    this.coalesceMs = options.coalesceMs ?? 0;
+    this.retention = options.retention ?? {};
+    if (store) {
+      this.utterances = store.load();
+      this.responses = store.loadedResponses();
+      this.utterances.forEach(u => this.statusCounts[u.status]++);
+    }
+  }
+
+  /**
+   * @param text - What the user said
+   * @param timestamp - When it was said (defaults to now)
+   * @param options - `urgent` starts a new utterance rather than being appended to an ordinary one;
+   * `coalesce: false` adds a complete utterance, e.g. one moved from another queue, as it is
+   * @returns The new utterance, or the one it was coalesced into
+   */
+  add(text: string, timestamp?: Date, options: { urgent?: boolean; coalesce?: boolean } = {}): Utterance {
+    const at = (timestamp || new Date()).getTime();
+    const coalesce = options.coalesce ?? true;
+    const target = coalesce ? this.openCoalesceTarget() : undefined;
+    if (target && !!target.urgent === !!options.urgent && Math.abs(at - this.coalesceTarget!.lastFragmentAt) < this.coalesceMs) {
+      this.coalesceTarget!.lastFragmentAt = Math.max(at, this.coalesceTarget!.lastFragmentAt);
+      this.setText(target, `${target.text} ${text.trim()}`);
+      debugLog(`[Queue] coalesced:	"${target.text}"	[id: ${target.id}]`);
+      return target;
+    }
 
-  add(text: string, timestamp?: Date): Utterance {
     const utterance: Utterance = {
       id: randomUUID(),
       text: text.trim(),
       timestamp: timestamp || new Date(),
-      status: 'pending'
+      status: 'pending',
+      ...(options.urgent ? { urgent: true } : {})
     };
-    
+
+    if (coalesce) {
+      this.coalesceTarget = { id: utterance.id, lastFragmentAt: at };
+    }
     this.utterances.push(utterance);
-    debugLog(`[Queue] queued:	"${utterance.text}"	[id: ${utterance.id}]`);
+    this.statusCounts.pending++;
+    this.store?.append({ type: 'added', utterance });
+    debugLog(`[Queue] queued${utterance.urgent ? ' (urgent)' : ''}:	"${utterance.text}"	[id: ${utterance.id}]`);
+    this.emit('added', utterance);
     return utterance;
   }
 
   getRecent(limit: number = 10): Utterance[] {
-    return this.utterances
+    return [...this.utterances]
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, limit);
   }
 
+  getStatusCounts(): StatusCounts {
+    return { total: this.utterances.length, ...this.statusCounts };
+  }
+
   markDelivered(id: string): void {
-    const utterance = this.utterances.find(u => u.id === id);
+    const utterance = this.setStatus(id, 'delivered');
     if (utterance) {
-      utterance.status = 'delivered';
       debugLog(`[Queue] delivered:	"${utterance.text}"	[id: ${id}]`);
     }
   }
 
+  // Returns an utterance to the queue, e.g. when the caller it was delivered to disconnected
+  markPending(id: string): void {
+    const utterance = this.setStatus(id, 'pending');
+    if (utterance) {
+      debugLog(`[Queue] returned to pending:	"${utterance.text}"	[id: ${id}]`);
+    }
+  }
+
+  markResponded(id: string): void {
+    const utterance = this.setStatus(id, 'responded');
+    if (utterance) {
+      debugLog(`[Queue] marked as responded:	"${utterance.text}"	[id: ${id}]`);
+    }
+  }
+
+  /**
+   * Records what was spoken in reply and marks the utterances it answered as responded
+   * @param text - The spoken response
+   * @param utteranceIds - The utterances it answers (may be empty for unprompted updates)
+   * @returns The recorded response
+   */
+  recordResponse(text: string, utteranceIds: string[]): AssistantResponse {
+    const response: AssistantResponse = {
+      id: randomUUID(),
+      text: text.trim(),
+      timestamp: new Date(),
+      utteranceIds: [...utteranceIds]
+    };
+
+    utteranceIds.forEach(id => this.markResponded(id));
+    this.responses.push(response);
+    this.store?.append({ type: 'response', response });
+    debugLog(`[Queue] response:	"${response.text}"	[answers: ${utteranceIds.join(', ') || 'none'}]`);
+    this.emit('response', response);
+    return response;
+  }
+
+  /**
+   * Utterances and responses interleaved in the order they happened
+   * @param limit - Keep only the most recent entries
+   * @returns The transcript, oldest first
+   */
+  getConversation(limit?: number): ConversationEntry[] {
+    const entries: ConversationEntry[] = [
+      ...this.utterances.map(u => ({ role: 'user' as const, ...u })),
+      ...this.responses.map(r => ({ role: 'assistant' as const, ...r }))
+    ];
+    entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return limit === undefined ? entries : entries.slice(-limit);
+  }
+
+  remove(id: string): Utterance | undefined {
+    const index = this.utterances.findIndex(u => u.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const [utterance] = this.utterances.splice(index, 1);
+    this.statusCounts[utterance.status]--;
+    this.store?.append({ type: 'removed', id });
+    debugLog(`[Queue] removed:	"${utterance.text}"	[id: ${id}]`);
+    this.emit('removed', utterance);
+    return utterance;
+  }
+
+  // Retracts the most recent utterance Claude has not received yet
+  removeLastPending(): Utterance | undefined {
+    const last = this.utterances
+      .filter(u => u.status === 'pending')
+      .reduce<Utterance | undefined>((latest, u) => !latest || u.timestamp >= latest.timestamp ? u : latest, undefined);
+    return last ? this.remove(last.id) : undefined;
+  }
+
+  // Drops every utterance Claude has not received yet, keeping the conversation history
+  clearPending(): Utterance[] {
+    return this.utterances
+      .filter(u => u.status === 'pending')
+      .map(u => this.remove(u.id)!);
+  }
+
+  /**
+   * Corrects the text of an utterance Claude has not received yet
+   * @param id - The utterance to edit
+   * @param text - The new text
+   * @returns The updated utterance
+   * @throws UtteranceEditError if the utterance is unknown, no longer pending, or the text is empty
+   */
+  updateText(id: string, text: string): Utterance {
+    const utterance = this.findPending(id);
+    if (!text || !text.trim()) {
+      throw new UtteranceEditError('invalid', 'Text is required');
+    }
+
+    this.setText(utterance, text.trim());
+    debugLog(`[Queue] edited:	"${utterance.text}"	[id: ${id}]`);
+    return utterance;
+  }
+
+  /**
+   * Takes back an utterance Claude has not received yet
+   * @throws UtteranceEditError if the utterance is unknown or no longer pending
+   */
+  retract(id: string): Utterance {
+    this.findPending(id);
+    return this.remove(id)!;
+  }
+
+  /**
+   * Combines consecutive pending utterances into the earliest one, e.g. when speech
+   * recognition split one thought into several results
+   * @param ids - The utterances to merge, in any order
+   * @returns The merged utterance (keeps the id and timestamp of the earliest)
+   * @throws UtteranceEditError if fewer than two are given, any is not pending, or others sit between them
+   */
+  merge(ids: string[]): Utterance {
+    const uniqueIds = Array.from(new Set(ids));
+    if (uniqueIds.length < 2) {
+      throw new UtteranceEditError('invalid', 'At least two utterances are required to merge');
+    }
+
+    const selected = uniqueIds.map(id => this.findPending(id));
+    const ordered = [...this.utterances].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const positions = selected.map(u => ordered.indexOf(u)).sort((a, b) => a - b);
+    if (positions[positions.length - 1] - positions[0] !== positions.length - 1) {
+      throw new UtteranceEditError('invalid', 'Only consecutive utterances can be merged');
+    }
+
+    const [first, ...rest] = positions.map(position => ordered[position]);
+    const merged = this.updateText(first.id, [first, ...rest].map(u => u.text).join(' '));
+    rest.forEach(u => this.remove(u.id));
+    return merged;
+  }
+
   clear(): void {
     const count = this.utterances.length;
     this.utterances = [];
+    this.responses = [];
+    this.statusCounts = { pending: 0, delivered: 0, responded: 0 };
+    this.store?.append({ type: 'cleared' });
     debugLog(`[Queue] Cleared ${count} utterances`);
+    this.emit('cleared', count);
+  }
+
+  /**
+   * Applies the retention limits. Only answered utterances are dropped; pending and
+   * delivered ones are still part of the live conversation. Responses go once every
+   * utterance they answered is gone, or by the same age and count limits when unlinked.
+   * @param now - Reference time for the age limit
+   * @returns The utterances removed
+   */
+  prune(now: number = Date.now()): Utterance[] {
+    const { maxEntries, maxAgeMs, keepOnlyUnresponded } = this.retention;
+    const cutoff = maxAgeMs !== undefined ? now - maxAgeMs : -Infinity;
+
+    const responded = this.utterances
+      .filter(u => u.status === 'responded')
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const excess = keepOnlyUnresponded ? responded.length : Math.max(0, responded.length - (maxEntries ?? Infinity));
+    const dropped = new Set(responded.filter((u, index) => index < excess || u.timestamp.getTime() < cutoff));
+
+    const keptIds = new Set(this.utterances.filter(u => !dropped.has(u)).map(u => u.id));
+    const unlinked = this.responses.filter(r => r.utteranceIds.length === 0);
+    const unlinkedExcess = keepOnlyUnresponded ? unlinked.length : Math.max(0, unlinked.length - (maxEntries ?? Infinity));
+    const droppedResponses = new Set(this.responses.filter(r => r.utteranceIds.length > 0
+      ? !r.utteranceIds.some(id => keptIds.has(id))
+      : unlinked.indexOf(r) < unlinkedExcess || r.timestamp.getTime() < cutoff));
+
+    if (dropped.size === 0 && droppedResponses.size === 0) {
+      return [];
+    }
+
+    this.utterances = this.utterances.filter(u => !dropped.has(u));
+    this.responses = this.responses.filter(r => !droppedResponses.has(r));
+    this.statusCounts.responded -= dropped.size;
+    this.store?.append({
+      type: 'pruned',
+      utteranceIds: [...dropped].map(u => u.id),
+      responseIds: [...droppedResponses].map(r => r.id)
+    });
+    debugLog(`[Queue] Pruned ${dropped.size} answered utterance(s) and ${droppedResponses.size} response(s)`);
+    const removed = [...dropped];
+    this.emit('pruned', removed);
+    return removed;
+  }
+
+  /**
+   * Waits until at least one utterance is pending
+   * @param timeoutMs - How long to wait before giving up
+   * @param signal - Aborts the wait early, e.g. when the hook request goes away
+   * @returns True if pending utterances are available, false on timeout or abort
+   */
+  waitForPending(timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+    if (this.utterances.some(u => u.status === 'pending')) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const finish = (result: boolean) => {
+        clearTimeout(timer);
+        this.off('added', onAdded);
+        this.off('pending', onAdded);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const onAdded = () => finish(true);
+      const onAbort = () => finish(false);
+      const timer = setTimeout(() => finish(false), timeoutMs);
+
+      this.on('added', onAdded);
+      this.on('pending', onAdded);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Waits for the next utterance to be added, ignoring any already pending
+   * @param timeoutMs - How long to wait before giving up
+   * @param signal - Aborts the wait early
+   * @returns True if an utterance was added, false on timeout or abort
+   */
+  waitForAdded(timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+      const finish = (result: boolean) => {
+        clearTimeout(timer);
+        this.off('added', onAdded);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const onAdded = () => finish(true);
+      const onAbort = () => finish(false);
+      const timer = setTimeout(() => finish(false), timeoutMs);
+
+      this.on('added', onAdded);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Whether the newest utterance may still receive more fragments
+   */
+  isCoalescing(): boolean {
+    return this.openCoalesceTarget() !== undefined &&
+      Date.now() < this.coalesceTarget!.lastFragmentAt + this.coalesceMs;
+  }
+
+  /**
+   * Closes the coalescing window, so the next fragment starts a new utterance. Used when a
+   * question is asked: the answer must not be appended to what was said before it.
+   */
+  endCoalescing(): void {
+    this.coalesceTarget = undefined;
+  }
+
+  /**
+   * Waits until the coalescing window closes, so callers deliver complete sentences
+   * @param maxWaitMs - Upper bound in case the user keeps talking
+   * @param signal - Aborts the wait early, e.g. when the hook request goes away
+   */
+  async waitForCoalescing(maxWaitMs: number, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (this.isCoalescing() && !signal?.aborted) {
+      const remaining = Math.min(this.coalesceTarget!.lastFragmentAt + this.coalesceMs, deadline) - Date.now();
+      if (remaining <= 0) {
+        return;
+      }
+
+      await new Promise<void>(resolve => {
+        const finish = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', finish);
+          resolve();
+        };
+        const timer = setTimeout(finish, remaining);
+        signal?.addEventListener('abort', finish);
+      });
+    }
+  }
+
+  private openCoalesceTarget(): Utterance | undefined {
+    if (this.coalesceMs <= 0 || !this.coalesceTarget) {
+      return undefined;
+    }
+    const id = this.coalesceTarget.id;
+    return this.utterances.find(u => u.id === id && u.status === 'pending');
+  }
+
+  private setText(utterance: Utterance, text: string): void {
+    utterance.text = text;
+    this.store?.append({ type: 'text', id: utterance.id, text });
+    this.emit('updated', utterance);
+  }
+
+  private findPending(id: string): Utterance {
+    const utterance = this.utterances.find(u => u.id === id);
+    if (!utterance) {
+      throw new UtteranceEditError('not-found', 'Utterance not found');
+    }
+    if (utterance.status !== 'pending') {
+      throw new UtteranceEditError('not-pending', `Utterance was already ${utterance.status} and can no longer be changed`);
+    }
+    return utterance;
+  }
+
+  private setStatus(id: string, status: UtteranceStatus): Utterance | undefined {
+    const utterance = this.utterances.find(u => u.id === id);
+    if (utterance) {
+      this.statusCounts[utterance.status]--;
+      this.statusCounts[status]++;
+      utterance.status = status;
+      this.store?.append({ type: 'status', id, status });
+      this.emit(status, utterance);
+    }
+    return utterance;
   }
-}
\ No newline at end of file
+}
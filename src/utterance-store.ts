@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import { AssistantResponse, Utterance, UtteranceStatus, UtteranceStore, UtteranceStoreEvent } from './types.js';
+import { debugLog } from './debug.js';
+
+interface RetentionPolicy {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  maxEntries: 500,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Append-only JSONL store for the utterance queue.
+ *
+ * Every queue change is appended as one line. On load the log is replayed,
+ * the retention policy is applied to answered utterances and responses (unanswered
+ * utterances are always kept) and the file is rewritten with one `added` line per
+ * retained utterance and one `response` line per retained response.
+ * The same compaction runs whenever the log grows past twice the retained entry limit.
+ */
+export class JsonlUtteranceStore implements UtteranceStore {
+  private readonly filePath: string;
+  private readonly retention: RetentionPolicy;
+  private utterances = new Map<string, Utterance>();
+  private responses = new Map<string, AssistantResponse>();
+  private linesSinceCompaction = 0;
+
+  constructor(filePath: string, retention: Partial<RetentionPolicy> = {}) {
+    this.filePath = filePath;
+    this.retention = { ...DEFAULT_RETENTION, ...retention };
+  }
+
+  load(): Utterance[] {
+    this.utterances.clear();
+    this.responses.clear();
+
+    if (fs.existsSync(this.filePath)) {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          this.apply(JSON.parse(line));
+        } catch (error) {
+          debugLog(`[Store] Skipping malformed line in ${this.filePath}: ${error}`);
+        }
+      }
+      this.compact();
+    }
+
+    debugLog(`[Store] Restored ${this.utterances.size} utterances from ${this.filePath}`);
+    return Array.from(this.utterances.values()).map(u => ({ ...u }));
+  }
+
+  loadedResponses(): AssistantResponse[] {
+    return Array.from(this.responses.values()).map(r => ({ ...r, utteranceIds: [...r.utteranceIds] }));
+  }
+
+  append(event: UtteranceStoreEvent): void {
+    this.apply(JSON.parse(JSON.stringify(event)));
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+      this.linesSinceCompaction++;
+    } catch (error) {
+      // Persistence is best effort - the in-memory queue stays authoritative
+      debugLog(`[Store] Failed to append to ${this.filePath}: ${error}`);
+      return;
+    }
+
+    if (this.linesSinceCompaction > this.retention.maxEntries * 2) {
+      this.compact();
+    }
+  }
+
+  // Replays a single parsed log line onto the in-memory mirror. Lines come from disk, so
+  // anything that does not look like a known event is skipped.
+  private apply(event: unknown): void {
+    if (!isRecord(event)) {
+      return;
+    }
+
+    if (event.type === 'added') {
+      const utterance = parseUtterance(event.utterance);
+      if (utterance) {
+        this.utterances.set(utterance.id, utterance);
+      }
+    } else if (event.type === 'status' && typeof event.id === 'string' && isStatus(event.status)) {
+      const utterance = this.utterances.get(event.id);
+      if (utterance) {
+        utterance.status = event.status;
+      }
+    } else if (event.type === 'text' && typeof event.id === 'string' && typeof event.text === 'string') {
+      const utterance = this.utterances.get(event.id);
+      if (utterance) {
+        utterance.text = event.text;
+      }
+    } else if (event.type === 'response') {
+      const response = parseResponse(event.response);
+      if (response) {
+        this.responses.set(response.id, response);
+      }
+    } else if (event.type === 'pruned') {
+      stringArray(event.utteranceIds).forEach(id => this.utterances.delete(id));
+      stringArray(event.responseIds).forEach(id => this.responses.delete(id));
+    } else if (event.type === 'removed' && typeof event.id === 'string') {
+      this.utterances.delete(event.id);
+    } else if (event.type === 'cleared') {
+      this.utterances.clear();
+      this.responses.clear();
+    }
+  }
+
+  private compact(): void {
+    // Utterances Claude has not answered yet are kept however old they are
+    const utterances = Array.from(this.utterances.values());
+    const retained = [
+      ...utterances.filter(u => u.status !== 'responded'),
+      ...this.applyRetention(utterances.filter(u => u.status === 'responded'))
+    ].sort(byTimestamp);
+    this.utterances = new Map(retained.map(u => [u.id, u]));
+
+    const retainedResponses = this.applyRetention(Array.from(this.responses.values()));
+    this.responses = new Map(retainedResponses.map(r => [r.id, r]));
+
+    const contents = [
+      ...retained.map(utterance => JSON.stringify({ type: 'added', utterance }) + '\n'),
+      ...retainedResponses.map(response => JSON.stringify({ type: 'response', response }) + '\n')
+    ].join('');
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated log
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, contents);
+      fs.renameSync(tempPath, this.filePath);
+      this.linesSinceCompaction = 0;
+    } catch (error) {
+      debugLog(`[Store] Failed to compact ${this.filePath}: ${error}`);
+    }
+  }
+
+  // Drops entries past the age limit, then all but the newest maxEntries
+  private applyRetention<T extends { timestamp: Date }>(entries: T[]): T[] {
+    const cutoff = Date.now() - this.retention.maxAgeMs;
+    return entries
+      .filter(entry => entry.timestamp.getTime() >= cutoff)
+      .sort(byTimestamp)
+      .slice(-this.retention.maxEntries);
+  }
+}
+
+function byTimestamp(a: { timestamp: Date }, b: { timestamp: Date }): number {
+  return a.timestamp.getTime() - b.timestamp.getTime();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isStatus(value: unknown): value is UtteranceStatus {
+  return value === 'pending' || value === 'delivered' || value === 'responded';
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function parseUtterance(value: unknown): Utterance | undefined {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string' || !isStatus(value.status)) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    text: value.text,
+    timestamp: new Date(String(value.timestamp)),
+    status: value.status,
+    ...(value.urgent ? { urgent: true } : {})
+  };
+}
+
+function parseResponse(value: unknown): AssistantResponse | undefined {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string') {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    text: value.text,
+    timestamp: new Date(String(value.timestamp)),
+    utteranceIds: stringArray(value.utteranceIds)
+  };
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+
+/**
+ * Control phrases recognised before an utterance is queued:
+ * - scratch: retract the last pending utterance
+ * - interrupt: block the next pre-tool hook with an interrupt reason
+ * - clear: drop every pending utterance
+ * - repeat: replay the last spoken response
+ */
+export type VoiceCommand = 'scratch' | 'interrupt' | 'clear' | 'repeat';
+
+const VOICE_COMMANDS: VoiceCommand[] = ['scratch', 'interrupt', 'clear', 'repeat'];
+
+type CommandPhrases = Partial<Record<VoiceCommand, string[]>>;
+
+// Phrases per language code (the part before the region, e.g. "ko" for "ko-KR")
+type PhraseTable = Record<string, CommandPhrases>;
+
+const DEFAULT_PHRASES: PhraseTable = {
+  en: {
+    scratch: ['scratch that', 'delete that', 'undo that'],
+    interrupt: ['stop', 'hold on', 'wait', 'wait a second'],
+    clear: ['never mind', 'nevermind', 'forget it'],
+    repeat: ['repeat that', 'say that again', 'what did you say']
+  },
+  ko: {
+    scratch: ['방금 거 취소', '취소해'],
+    interrupt: ['멈춰', '잠깐', '잠깐만'],
+    clear: ['됐어', '다 취소해'],
+    repeat: ['다시 말해줘', '다시 말해 줘', '뭐라고']
+  }
+};
+
+// Words that mark the rest of an utterance as urgent, e.g. "urgent: use the staging database"
+const URGENT_PREFIXES: Record<string, string[]> = {
+  en: ['urgent'],
+  ko: ['긴급']
+};
+
+// Lowercase, collapse whitespace and drop the punctuation speech recognition tends to add
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:。、！？"'`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Recognises whole-utterance voice commands. "stop" is a command, "stop using tabs" is
+ * an ordinary utterance for Claude.
+ */
+export class VoiceCommandMatcher {
+  private phrases: PhraseTable;
+
+  constructor(phrases: PhraseTable = DEFAULT_PHRASES) {
+    this.phrases = phrases;
+  }
+
+  /**
+   * Builds a matcher from the default phrases, overridden per language and command by a JSON file
+   * @param filePath - Optional file like `{ "de": { "scratch": ["streich das"] } }`
+   * @returns The matcher
+   * @throws Error if the file is not a valid phrase table
+   */
+  static load(filePath?: string): VoiceCommandMatcher {
+    const phrases: PhraseTable = {};
+    for (const [language, commands] of Object.entries(DEFAULT_PHRASES)) {
+      phrases[language] = { ...commands };
+    }
+
+    if (filePath) {
+      const raw: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Voice command phrases must be an object keyed by language');
+      }
+      for (const [language, commands] of Object.entries(raw as Record<string, unknown>)) {
+        if (!commands || typeof commands !== 'object' || Array.isArray(commands)) {
+          throw new Error(`Phrases for "${language}" must be an object keyed by command`);
+        }
+        for (const [command, list] of Object.entries(commands as Record<string, unknown>)) {
+          if (!VOICE_COMMANDS.includes(command as VoiceCommand)) {
+            throw new Error(`Unknown voice command "${command}" for "${language}". Expected one of: ${VOICE_COMMANDS.join(', ')}`);
+          }
+          if (!Array.isArray(list) || !list.every(phrase => typeof phrase === 'string')) {
+            throw new Error(`Phrases for "${language}.${command}" must be an array of strings`);
+          }
+          phrases[language.toLowerCase()] = { ...phrases[language.toLowerCase()], [command]: list };
+        }
+      }
+    }
+
+    return new VoiceCommandMatcher(phrases);
+  }
+
+  /**
+   * @param text - The utterance text
+   * @param language - Recognition language such as "en-US"; without one every language is checked
+   * @returns The command the utterance consists of, if any
+   */
+  match(text: string, language?: string): VoiceCommand | undefined {
+    const normalized = normalize(text);
+    const baseLanguage = language?.split('-')[0].toLowerCase();
+    const tables = baseLanguage && this.phrases[baseLanguage]
+      ? [this.phrases[baseLanguage]]
+      : Object.values(this.phrases);
+
+    for (const table of tables) {
+      for (const command of VOICE_COMMANDS) {
+        if (table[command]?.some(phrase => normalize(phrase) === normalized)) {
+          return command;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Detects a spoken urgent prefix. "Urgent, use the other branch" is urgent; "urgently" and
+   * a bare "urgent" are not.
+   * @param text - The utterance text
+   * @param language - Recognition language such as "en-US"; without one every language is checked
+   * @returns The text after the prefix, or undefined if the utterance has none
+   */
+  matchUrgentPrefix(text: string, language?: string): string | undefined {
+    const trimmed = text.trim();
+    const baseLanguage = language?.split('-')[0].toLowerCase();
+    const prefixes = baseLanguage && URGENT_PREFIXES[baseLanguage]
+      ? URGENT_PREFIXES[baseLanguage]
+      : Object.values(URGENT_PREFIXES).flat();
+
+    for (const prefix of prefixes) {
+      const boundary = trimmed.charAt(prefix.length);
+      if (trimmed.toLowerCase().startsWith(prefix) && /[\s.,!?;:。、！？-]/.test(boundary)) {
+        const rest = trimmed.slice(prefix.length).replace(/^[\s.,!?;:。、！？-]+/, '');
+        if (rest) {
+          return rest;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Decides whether an utterance is a command or input for Claude. While the user is answering
+   * a question, commands are not recognised, so "stop" or "never mind" reaches the question as
+   * its answer instead of interrupting or clearing the queue.
+   * @param text - The utterance text
+   * @param options - `language` as for match; `answering` if a question is waiting for a reply
+   * @returns The command, or the text to queue (without an urgent prefix) and whether it is urgent
+   */
+  interpret(
+    text: string,
+    options: { language?: string; answering?: boolean } = {}
+  ): { command: VoiceCommand } | { text: string; urgent: boolean } {
+    const command = options.answering ? undefined : this.match(text, options.language);
+    if (command) {
+      return { command };
+    }
+    const urgentText = this.matchUrgentPrefix(text, options.language);
+    return { text: urgentText ?? text, urgent: urgentText !== undefined };
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Messages exchanged with the browser over the WebSocket. The same events are written to
+ * /api/tts-events for browsers that cannot hold a WebSocket open; public/app.js mirrors
+ * these shapes, so bump PROTOCOL_VERSION when changing them incompatibly.
+ */
+export const PROTOCOL_VERSION = 1;
+
+interface UtteranceSummary {
+  id: string;
+  text: string;
+  timestamp: Date;
+  status: string;
+  urgent?: boolean;
+}
+
+// Questions from ask_user, approve/deny confirmations from confirm_action, and permission
+// prompts answered on Claude Code's behalf
+export type QuestionKind = 'question' | 'confirm' | 'permission';
+
+// Sent by the browser. Messages with an id are answered with an ack carrying the same id.
+export type ClientMessage = { v: number; id?: string } & (
+  | { type: 'utterance'; text: string; timestamp?: string; language?: string; sessionId?: string; urgent?: boolean }
+  | { type: 'voiceInputState'; active: boolean }
+  | { type: 'voicePreferences'; voiceResponsesEnabled: boolean }
+  | { type: 'audio-start'; sampleRate?: number; language?: string; sessionId?: string }
+  | { type: 'audio-stop' }
+);
+
+// Sent by the server
+export type ServerMessage =
+  | { type: 'hello'; version: number }
+  | { type: 'ack'; id: string; ok: true; result?: unknown }
+  | { type: 'ack'; id?: string; ok: false; error: string }
+  | { type: 'speak'; text: string; audioUrl?: string; sessionId: string; sessionName: string }
+  | { type: 'waitStatus'; isWaiting: boolean; sessionId: string }
+  | { type: 'sessionUpdate'; session: unknown }
+  | { type: 'utteranceUpdate'; change: 'updated' | 'removed'; sessionId: string; utterance: UtteranceSummary }
+  | { type: 'voiceCommand'; command: string; text: string; message: string; timestamp: Date; sessionId: string }
+  | { type: 'question'; id: string; kind: QuestionKind; question: string; choices: string[]; timeoutSeconds: number; sessionId: string }
+  | { type: 'questionEnded'; id: string; sessionId: string; answer?: string; choice?: string }
+  | { type: 'status'; text: string; progress?: number; speak: boolean; sessionId: string }
+  | { type: 'transcript'; final: boolean; text: string; [result: string]: unknown }
+  | { type: 'audio-started'; sessionId: string; sampleRate: number }
+  | { type: 'audio-stopped' }
+  | { type: 'audio-error'; error: string };
+
+// Broadcasts a reconnecting browser needs to catch up on. Wait status, session updates and
+// status notes are superseded by the next one, and a long tool chain sends enough of them to
+// push responses out of the replay buffer.
+const REPLAYED_TYPES: ReadonlySet<ServerMessage['type']> = new Set<ServerMessage['type']>([
+  'speak', 'question', 'questionEnded', 'voiceCommand', 'utteranceUpdate'
+]);
+
+/**
+ * @param message - A broadcast event
+ * @returns True if it is kept for replay to browsers that reconnect
+ */
+export function isReplayed(message: ServerMessage): boolean {
+  return REPLAYED_TYPES.has(message.type);
+}
+
+interface Envelope {
+  // Broadcast events are numbered so a reconnecting browser can ask for what it missed
+  eventId?: number;
+  // Set on events sent again after a reconnect; the browser shows but doesn't speak them
+  replayed?: boolean;
+}
+
+/**
+ * Serializes a message for the wire, stamped with the protocol version
+ * @param message - The message
+ * @param envelope - Event id and replay flag for broadcast events
+ * @returns JSON text for a WebSocket frame or SSE data line
+ */
+export function encodeServerMessage(message: ServerMessage, envelope: Envelope = {}): string {
+  return JSON.stringify({ v: PROTOCOL_VERSION, ...envelope, ...message });
+}
+
+/**
+ * Thrown for messages that are not valid JSON, use another protocol version or
+ * don't match any ClientMessage shape
+ */
+export class ProtocolError extends Error {
+  // Request id of the offending message, if it had one, so the ack can reference it
+  readonly id?: string;
+
+  constructor(message: string, id?: string) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.id = id;
+  }
+}
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+// Field types per message type; a trailing "?" marks optional fields
+const CLIENT_MESSAGE_FIELDS: Record<ClientMessage['type'], Record<string, `${FieldType}${'' | '?'}`>> = {
+  'utterance': { text: 'string', timestamp: 'string?', language: 'string?', sessionId: 'string?', urgent: 'boolean?' },
+  'voiceInputState': { active: 'boolean' },
+  'voicePreferences': { voiceResponsesEnabled: 'boolean' },
+  'audio-start': { sampleRate: 'number?', language: 'string?', sessionId: 'string?' },
+  'audio-stop': {}
+};
+
+/**
+ * Validates a text frame from the browser
+ * @param raw - The frame's text
+ * @returns The message
+ * @throws ProtocolError if the frame is not a valid message for this protocol version
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ProtocolError('Message must be a JSON object');
+  }
+
+  const message = data as Record<string, unknown>;
+  const id = typeof message.id === 'string' ? message.id : undefined;
+  if (message.id !== undefined && id === undefined) {
+    throw new ProtocolError('"id" must be a string');
+  }
+  if (message.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(`Unsupported protocol version ${JSON.stringify(message.v)}, expected ${PROTOCOL_VERSION}`, id);
+  }
+
+  const fields = typeof message.type === 'string' && Object.hasOwn(CLIENT_MESSAGE_FIELDS, message.type)
+    ? CLIENT_MESSAGE_FIELDS[message.type as ClientMessage['type']]
+    : undefined;
+  if (!fields) {
+    throw new ProtocolError(`Unknown message type ${JSON.stringify(message.type)}`, id);
+  }
+  for (const [field, spec] of Object.entries(fields)) {
+    const optional = spec.endsWith('?');
+    const type = spec.replace('?', '');
+    const value = message[field];
+    if (value === undefined && optional) {
+      continue;
+    }
+    if (typeof value !== type) {
+      throw new ProtocolError(`"${field}" must be a ${type} in ${message.type} messages`, id);
+    }
+  }
+
+  return message as ClientMessage;
+}